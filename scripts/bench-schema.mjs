@@ -0,0 +1,51 @@
+// path: scripts/bench-schema.mjs
+// Throughput of assertMatchesSchema (interpreted) vs compileSchema (generated code).
+import { build } from 'esbuild';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const outfile = join(tmpdir(), 'assertroute-bench.mjs');
+await build({ entryPoints: ['src/assertroute.ts'], bundle: true, format: 'esm', platform: 'node', outfile, logLevel: 'warning' });
+const { s, assertMatchesSchema, matchesSchema, compileSchema } = await import(pathToFileURL(outfile).href);
+
+const order = s.object({
+  id: 'string',
+  status: s.literal('open', 'paid', 'shipped'),
+  customer: { name: 'string', email: s.nullable('string'), vip: 'boolean' },
+  items: [{ sku: 'string', qty: 'number', price: 'number' }],
+  note: s.optional('string'),
+});
+
+const messages = Array.from({ length: 1000 }, (_, i) => ({
+  id: `order-${i}`,
+  status: ['open', 'paid', 'shipped'][i % 3],
+  customer: { name: `Customer ${i}`, email: i % 5 ? `c${i}@example.com` : null, vip: i % 7 === 0 },
+  items: Array.from({ length: 1 + (i % 4) }, (_, j) => ({ sku: `SKU-${j}`, qty: j + 1, price: 9.95 })),
+  ...(i % 2 ? { note: 'leave at door' } : {}),
+}));
+
+const DURATION_MS = Number(process.env.BENCH_MS ?? 1000);
+
+function bench(name, check) {
+  for (const m of messages) check(m); // warm up
+  let count = 0;
+  const start = performance.now();
+  while (performance.now() - start < DURATION_MS) {
+    for (const m of messages) check(m);
+    count += messages.length;
+  }
+  const perSecond = count / ((performance.now() - start) / 1000);
+  console.log(`${name.padEnd(28)} ${Math.round(perSecond).toLocaleString('en-US').padStart(14)} checks/s`);
+  return perSecond;
+}
+
+const compiled = compileSchema(order);
+console.log(`compileSchema mode: ${compiled.mode}, ${messages.length} messages, ${DURATION_MS} ms per run\n`);
+
+const interpreted = bench('assertMatchesSchema', (m) => assertMatchesSchema(m, order));
+bench('matchesSchema', (m) => matchesSchema(m, order));
+const generated = bench('compileSchema (assert)', (m) => compiled(m));
+bench('compileSchema (is)', (m) => compiled.is(m));
+
+console.log(`\ncompiled / interpreted: ${(generated / interpreted).toFixed(1)}x`);
@@ -0,0 +1,445 @@
+// path: scripts/regressions.mjs
+// Runtime regression checks: bundles the source with esbuild and runs node:test cases against it.
+import { build } from 'esbuild';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const outfile = join(tmpdir(), 'assertroute-regressions.mjs');
+await build({ entryPoints: ['src/assertroute.ts'], bundle: true, format: 'esm', platform: 'node', outfile, logLevel: 'warning' });
+const ar = await import(pathToFileURL(outfile).href);
+const { AssertError, s, v, assertMatchesSchema, withAssertContext, setAssertErrorHandler } = ar;
+
+/** Run fn and return how often the scoped and global handlers saw a failure, plus the thrown error. */
+function countHandlerCalls(fn) {
+  let scoped = 0;
+  let global = 0;
+  let error;
+  setAssertErrorHandler(() => global++);
+  try {
+    withAssertContext(
+      {},
+      () => {
+        try {
+          fn();
+        } catch (e) {
+          if (!(e instanceof AssertError)) throw e;
+          error = e;
+        }
+      },
+      () => scoped++
+    );
+  } finally {
+    setAssertErrorHandler(undefined);
+  }
+  return { scoped, global, error };
+}
+
+test('defined validators notify handlers once per failure', () => {
+  const Name = v.define().string().stringLengthAtMost(3).build();
+  for (const run of [() => Name('toolong'), () => Name('toolong', 'bad name'), () => Name.parse(1), () => assertMatchesSchema({ name: 'toolong' }, s.object({ name: Name }))]) {
+    const { scoped, global, error } = countHandlerCalls(run);
+    assert.ok(error);
+    assert.equal(scoped, 1);
+    assert.equal(global, 1);
+  }
+  const { error } = countHandlerCalls(() => assertMatchesSchema({ name: 'toolong' }, s.object({ name: Name }), 'bad user'));
+  assert.equal(error.message, 'bad user');
+  assert.equal(error.path, 'name');
+});
+
+test('refinement failures notify handlers once', () => {
+  const range = s.refine(s.object({ from: 'number', to: 'number' }), (r, ctx) => {
+    ctx.at('to', () => ar.assertNumberGreaterThan(r.to, r.from));
+  });
+  const { scoped, global, error } = countHandlerCalls(() => assertMatchesSchema({ from: 2, to: 1 }, range));
+  assert.equal(error.path, 'to');
+  assert.equal(scoped, 1);
+  assert.equal(global, 1);
+  const thrown = s.refine('number', (n) => ar.assertNumberPositive(n));
+  assert.equal(countHandlerCalls(() => assertMatchesSchema({ n: -1 }, { n: thrown })).global, 1);
+});
+
+test('strict objects reject keys inherited from Object.prototype', () => {
+  const strict = s.object({ id: 'number' }, { unknownKeys: 'strict' });
+  for (const key of ['__proto__', 'constructor', 'toString', 'hasOwnProperty']) {
+    const input = JSON.parse(`{"id":1,"${key}":1}`);
+    assert.equal(ar.matchesSchema(input, strict), false, key);
+    assert.throws(() => assertMatchesSchema(input, strict), (e) => e.code === 'OBJECT_UNKNOWN_KEYS' && e.actual.includes(key));
+  }
+  const copy = ar.expectSchema(JSON.parse('{"id":1,"__proto__":{"polluted":true}}'), s.object({ id: 'number' }));
+  assert.equal(Object.getPrototypeOf(copy), Object.prototype);
+  assert.deepEqual(Object.keys(copy), ['id', '__proto__']);
+});
+
+test('compileSchema accepts and rejects exactly what the interpreter does', () => {
+  const strict = s.object({ id: 'number', tags: ['string'], meta: s.object({ note: s.optional('string') }, { unknownKeys: 'strict' }) }, { unknownKeys: 'strict' });
+  const compiled = ar.compileSchema(strict);
+  assert.equal(compiled.mode, 'codegen');
+  const inputs = [
+    { id: 1, tags: [], meta: {} },
+    { id: 1, tags: ['a'], meta: { note: 'x' } },
+    { id: 1, tags: [1], meta: {} },
+    { id: 1, tags: [], meta: {}, extra: true },
+    { id: '1', tags: [], meta: {} },
+    ...['__proto__', 'constructor', 'toString', 'hasOwnProperty'].flatMap((key) => [
+      JSON.parse(`{"id":1,"tags":[],"meta":{},"${key}":1}`),
+      JSON.parse(`{"id":1,"tags":[],"meta":{"${key}":{}}}`),
+    ]),
+  ];
+  for (const input of inputs) assert.equal(compiled.is(input), ar.matchesSchema(input, strict), JSON.stringify(input));
+  assert.equal(compiled.is(JSON.parse('{"id":1,"tags":[],"meta":{},"__proto__":1}')), false);
+  assert.equal(compiled.is(JSON.parse('{"id":1,"tags":[],"meta":{"constructor":1}}')), false);
+});
+
+test('fromJsonSchema required and properties only see own properties', () => {
+  const assertHasToString = ar.fromJsonSchema({ type: 'object', required: ['toString', 'constructor'] });
+  assert.throws(() => assertHasToString({}), (e) => e.code === 'OBJECT_MISSING_KEY' && e.path === '/toString');
+  assert.doesNotThrow(() => assertHasToString({ toString: 1, constructor: 2 }));
+  const assertNamed = ar.fromJsonSchema({ type: 'object', properties: { toString: { type: 'string' } } });
+  assert.doesNotThrow(() => assertNamed({}));
+  assert.throws(() => assertNamed({ toString: 1 }), (e) => e.path === '/toString');
+});
+
+test('ifFails().on and routeWith always return a wrapper', () => {
+  let calls = 0;
+  const zeroArity = () => {
+    calls++;
+    ar.assertString(1);
+    return 'ok';
+  };
+  const wrapped = ar.ifFails('fallback').on(zeroArity);
+  const curried = ar.routeWith('fallback')(zeroArity);
+  assert.equal(typeof wrapped, 'function');
+  assert.equal(typeof curried, 'function');
+  assert.equal(calls, 0);
+  const log = console.log;
+  console.log = () => {}; // ifFails logs each failure
+  try {
+    assert.equal(wrapped(), 'fallback');
+  } finally {
+    console.log = log;
+  }
+  assert.equal(curried(), 'fallback');
+  assert.equal(calls, 2);
+});
+
+test('middleware before rewrites the arguments fn receives', () => {
+  const logged = [];
+  const redact = (args) => args.map((a) => (ar.isObject(a) && 'password' in a ? { ...a, password: '***' } : a));
+  const stop = v.useRouteMiddleware({
+    before: (args) => args.map((a) => (typeof a === 'string' ? a.trim() : a)),
+    onAssertError: (err, args) => logged.push(redact(args)),
+  });
+  try {
+    const login = v.fn(null, (name, credentials) => {
+      ar.assertStringLengthAtLeast(credentials.password, 8);
+      return `${name}:${credentials.password}`;
+    });
+    assert.equal(login('  ada ', { password: 'correct horse' }), 'ada:correct horse');
+    assert.equal(login('ada', { password: 'short' }), null);
+    assert.deepEqual(logged, [['ada', { password: '***' }]]);
+  } finally {
+    stop();
+  }
+});
+
+test('OpenAPI 3.0 export keeps nullable references', () => {
+  const node = s.lazy(() => s.object({ value: 'number', next: s.nullable(node) }), 'Node');
+  const components = {};
+  const schema = ar.toOpenApiComponent(s.object({ head: s.nullable(node), tail: node }), { version: '3.0', components });
+  assert.deepEqual(schema.properties.head, { allOf: [{ $ref: '#/components/schemas/Node' }], nullable: true });
+  assert.deepEqual(schema.properties.tail, { $ref: '#/components/schemas/Node' });
+  assert.deepEqual(components.Node.properties.next, { allOf: [{ $ref: '#/components/schemas/Node' }], nullable: true });
+  assert.deepEqual(ar.toOpenApiComponent(s.nullable('string'), { version: '3.0' }), { type: 'string', nullable: true });
+  const schema31 = ar.toOpenApiComponent(s.object({ head: s.nullable(node) }), { components: {} });
+  assert.deepEqual(schema31.properties.head, { anyOf: [{ $ref: '#/components/schemas/Node' }, { type: 'null' }] });
+});
+
+test('schema unions notify handlers only for the final failure', () => {
+  const id = s.union('number', s.object({ key: 'string' }));
+  assert.deepEqual(countHandlerCalls(() => assertMatchesSchema({ key: 'a' }, id)), { scoped: 0, global: 0, error: undefined });
+  const { scoped, global, error } = countHandlerCalls(() => assertMatchesSchema('a', id));
+  assert.equal(error.code, 'UNION_NO_MATCH');
+  assert.equal(scoped, 1);
+  assert.equal(global, 1);
+});
+
+test('schema objects read own properties only, interpreted and compiled', () => {
+  const shape = s.object({ constructor: s.optional('string'), toString: s.optional('string') });
+  const compiled = ar.compileSchema(shape);
+  assert.doesNotThrow(() => assertMatchesSchema({}, shape));
+  assert.equal(compiled.is({}), true);
+  assert.deepEqual(ar.expectSchema({}, shape), {});
+  assert.throws(() => assertMatchesSchema({ constructor: 1 }, shape), (e) => e.code === 'NOT_STRING' && e.path === 'constructor');
+  assert.equal(compiled.is({ constructor: 1 }), false);
+  const required = s.object({ toString: 'string' });
+  assert.throws(() => assertMatchesSchema({}, required), (e) => e.path === 'toString');
+  assert.equal(ar.compileSchema(required).is({}), false);
+});
+
+test('schema failure messages name the field path', () => {
+  const person = s.object({ age: 'number', address: { zip: 'string' }, tags: ['string'] });
+  assert.throws(() => assertMatchesSchema({ age: '1', address: { zip: '1' }, tags: [] }, person), { message: 'age: Expected number', path: 'age' });
+  assert.throws(() => assertMatchesSchema({ age: 1, address: { zip: 1 }, tags: [] }, person), { message: 'address.zip: Expected string' });
+  assert.throws(() => assertMatchesSchema({ age: 1, address: { zip: '1' }, tags: [2] }, person), { message: 'tags[0]: Expected string' });
+  assert.throws(() => assertMatchesSchema(1, person), { message: 'Expected object' });
+  assert.throws(() => assertMatchesSchema({ age: 'x' }, person, 'bad person'), { message: 'bad person' });
+  const range = s.refine(s.object({ from: 'number', to: 'number' }), (r, ctx) => ctx.at('to', () => ar.assertNumberGreaterThan(r.to, r.from)));
+  assert.throws(() => assertMatchesSchema({ from: 2, to: 1 }, range), { message: 'to: Expected > 2', path: 'to' });
+});
+
+test('fromJsonSchema anyOf/oneOf branches notify handlers only for the final failure', () => {
+  const assertId = ar.fromJsonSchema({ anyOf: [{ type: 'number' }, { type: 'string', minLength: 1 }] });
+  const assertOne = ar.fromJsonSchema({ oneOf: [{ type: 'number' }, { type: 'string' }] });
+  assert.deepEqual(countHandlerCalls(() => assertId('a')), { scoped: 0, global: 0, error: undefined });
+  assert.deepEqual(countHandlerCalls(() => assertOne('a')), { scoped: 0, global: 0, error: undefined });
+  for (const run of [() => assertId(''), () => assertOne(true)]) {
+    const { scoped, global, error } = countHandlerCalls(run);
+    assert.equal(error.code, 'UNION_NO_MATCH');
+    assert.equal(scoped, 1);
+    assert.equal(global, 1);
+  }
+});
+
+test('parse notifies handlers once for PARSE_FAILED', () => {
+  const query = s.object({ page: 'number', size: 'number', active: 'boolean' });
+  const { scoped, global, error } = countHandlerCalls(() => ar.parse(query, { page: 'x', size: 'y', active: 'maybe' }));
+  assert.equal(error.code, 'PARSE_FAILED');
+  assert.equal(error.info.errors.length, 3);
+  assert.equal(scoped, 1);
+  assert.equal(global, 1);
+});
+
+test('number coercion accepts decimal literals only', () => {
+  const Count = v.define().parseNumber().build();
+  for (const input of ['42', '-1.5', '+3', '.5']) {
+    assert.equal(ar.parse('number', input), Number(input));
+    assert.equal(Count.parse(input), Number(input));
+  }
+  for (const input of ['0x10', '1e3', ' 1 ', '', 'Infinity']) {
+    assert.throws(() => ar.parse('number', input), AssertError);
+    assert.throws(() => Count.parse(input), AssertError);
+  }
+});
+
+test('assertNoExtraKeys reads the shape of s.object schemas', () => {
+  const user = s.object({ id: 'number', name: s.optional('string') });
+  ar.assertNoExtraKeys({ id: 1, name: 'a' }, user);
+  ar.assertNoExtraKeys({ id: 1 }, s.optional(user));
+  assert.throws(() => ar.assertNoExtraKeys({ id: 1, kind: 'x' }, user), { code: 'OBJECT_UNKNOWN_KEYS', path: 'kind' });
+  assert.throws(() => ar.assertNoExtraKeys({ def: 1 }, user), { code: 'OBJECT_UNKNOWN_KEYS', path: 'def' });
+  ar.assertNoExtraKeys({ id: 1 }, { id: 'number' });
+  ar.assertNoExtraKeys({ id: 1 }, ['id']);
+});
+
+test('or() and not() notify handlers only for their own failure', () => {
+  const stringOrNumber = ar.or(ar.assertString, ar.assertNumber);
+  const notNull = ar.not(ar.assertNull);
+  assert.deepEqual(countHandlerCalls(() => stringOrNumber(5)), { scoped: 0, global: 0, error: undefined });
+  assert.deepEqual(countHandlerCalls(() => notNull(5)), { scoped: 0, global: 0, error: undefined });
+  assert.deepEqual(countHandlerCalls(() => v.that(5).or(ar.assertString, ar.assertNumber).run((x) => x)), { scoped: 0, global: 0, error: undefined });
+  for (const [run, code] of [
+    [() => stringOrNumber(true), 'UNION_NO_MATCH'],
+    [() => notNull(null), 'GUARD_MATCHED'],
+  ]) {
+    const { scoped, global, error } = countHandlerCalls(run);
+    assert.equal(error.code, code);
+    assert.equal(scoped, 1);
+    assert.equal(global, 1);
+  }
+});
+
+test('built validators export their steps as JSON Schema', () => {
+  const Name = v.define().string().stringLengthAtMost(64).build();
+  const Count = v.define().integer().positive().build();
+  const Page = v.define().parseNumber().integer().build('Page');
+  const schema = s.object({ name: Name, count: Count, page: Page, any: v.define().parseJSON().build() });
+  assert.deepEqual(ar.toJsonSchema(schema).properties, {
+    name: { type: 'string', maxLength: 64 },
+    count: { type: 'integer', exclusiveMinimum: 0 },
+    page: { 'x-assertroute-predicate': 'Page' },
+    any: { 'x-assertroute-predicate': 'validator' },
+  });
+  assert.deepEqual(ar.toOpenApiComponent(s.object({ count: Count }), { version: '3.0' }).properties.count, { type: 'integer', minimum: 0, exclusiveMinimum: true });
+  assert.equal(Page.name, 'Page');
+  assert.throws(() => ar.parse(Page, 'x'), { code: 'PARSE_FAILED', expected: 'Page' });
+});
+
+test('validator failures inside schemas name the full path once', () => {
+  const Point = v.define().prop('a', (c) => c.string()).build();
+  const shape = s.object({ x: Point });
+  const { scoped, global, error } = countHandlerCalls(() => assertMatchesSchema({ x: { a: 1 } }, shape));
+  assert.equal(error.message, 'x.a: Expected string');
+  assert.equal(error.path, 'x.a');
+  assert.equal(scoped, 1);
+  assert.equal(global, 1);
+  assert.throws(() => assertMatchesSchema({ x: 1 }, s.object({ x: v.define().string().build() })), { message: 'x: Expected string', path: 'x' });
+  assert.throws(() => assertMatchesSchema({ x: { a: 1 } }, shape, 'bad point'), { message: 'bad point' });
+});
+
+test('message placeholders quote string values', () => {
+  assert.throws(() => ar.assertEquals('1', 1), { message: 'Expected "1" === 1' });
+  assert.throws(() => ar.assertEquals('a', 'b'), { message: 'Expected "a" === "b"' });
+  assert.throws(() => ar.assertKeyEquals({ id: 1 }, 'id', '1'), { message: 'Expected key "id" to equal "1"' });
+  assert.throws(() => ar.assertString(1, 'got {actual}'), { message: 'got 1' });
+  assert.throws(() => ar.assertNumber('1', 'got {actual}'), { message: 'got "1"' });
+  assert.throws(() => ar.assertNumberGreaterThan(-1, 0), { message: 'Expected > 0' });
+});
+
+test('is* helpers that throw keep throwing inside soft routes', () => {
+  for (const check of [() => ar.isNonEmptyString(''), () => ar.isTruthy(0), () => ar.isNotNil(null)]) {
+    let returned;
+    const result = v.routeSoft(null, () => {
+      returned = check();
+      return 'done';
+    });
+    assert.equal(returned, undefined);
+    assert.equal(result.ok, false);
+    assert.equal(result.value, null);
+    assert.equal(result.errors.length, 1);
+  }
+  assert.equal(ar.isNonEmptyString('a'), true);
+});
+
+test('async routes settle with ROUTE_TIMEOUT and ROUTE_ABORTED', async () => {
+  let innerSignal;
+  const never = (signal) => {
+    innerSignal = signal;
+    return new Promise(() => {});
+  };
+  const timedOut = await ar.routeResultAsync(never, { timeoutMs: 10 });
+  assert.equal(timedOut.ok, false);
+  assert.equal(timedOut.error.code, 'ROUTE_TIMEOUT');
+  assert.equal(timedOut.error.message, 'Route timed out after 10ms');
+  assert.equal(innerSignal.aborted, true);
+
+  const controller = new AbortController();
+  const pending = ar.runRouteAsync((err) => err.code, never, { signal: controller.signal });
+  controller.abort();
+  assert.equal(await pending, 'ROUTE_ABORTED');
+  assert.equal(innerSignal.aborted, true);
+
+  const aborted = await ar.routeResultAsync(async () => 'late', { signal: AbortSignal.abort() });
+  assert.equal(aborted.error.code, 'ROUTE_ABORTED');
+  const done = await ar.routeResultAsync(async (signal) => (signal.aborted ? 'aborted' : 'done'), { timeoutMs: 1000 });
+  assert.equal(done.ok && done.value, 'done');
+});
+
+/** Run fn with setTimeout recording each delay and firing at once; returns the recorded delays. */
+async function recordDelays(fn) {
+  const delays = [];
+  const original = globalThis.setTimeout;
+  globalThis.setTimeout = (cb, ms) => {
+    delays.push(ms);
+    return original(cb, 0);
+  };
+  try {
+    await fn();
+  } finally {
+    globalThis.setTimeout = original;
+  }
+  return delays;
+}
+
+test('retry policies count attempts and back off between them', async () => {
+  let calls = 0;
+  const flaky = async () => {
+    calls++;
+    if (calls < 3) ar.assertString(calls);
+    return calls;
+  };
+  assert.equal(await ar.runRouteAsync(null, flaky, { retry: { attempts: 3, delayMs: 1 } }), 3);
+  assert.equal(calls, 3);
+
+  calls = 0;
+  const errors = [];
+  const fallback = await ar.runRouteAsync((err) => `fallback after ${err.code}`, flaky, { retry: { attempts: 2, delayMs: 1 }, onError: (e) => errors.push(e.code), logFail: false });
+  assert.equal(fallback, 'fallback after NOT_STRING');
+  assert.equal(calls, 2);
+  assert.deepEqual(errors, ['NOT_STRING', 'NOT_STRING']);
+
+  const failing = async () => ar.assertString(1);
+  const delaysFor = (retry) => recordDelays(() => ar.runRouteAsync(null, failing, { retry, logFail: false }));
+  assert.deepEqual(await delaysFor({ attempts: 4, delayMs: 10 }), [10, 20, 40]);
+  assert.deepEqual(await delaysFor({ attempts: 4, delayMs: 10, maxDelayMs: 15 }), [10, 15, 15]);
+  assert.deepEqual(await delaysFor({ attempts: 4, delayMs: 10, backoff: 'fixed' }), [10, 10, 10]);
+  for (const delay of await delaysFor({ attempts: 3, delayMs: 10, backoff: 'fixed', jitter: true })) assert.ok(delay >= 5 && delay <= 10);
+  assert.deepEqual(await delaysFor({ attempts: 4, delayMs: 10, retryOn: ['NOT_NUMBER'] }), []);
+});
+
+test('soft routes collect every failure in order', () => {
+  const form = { name: 1, age: 12, email: 'nope' };
+  let reachedEnd = false;
+  const result = v.routeSoft({ fallback: true }, () => {
+    ar.assertString(form.name, 'name is required');
+    ar.assertNumberGreaterOrEqual(form.age, 18, 'must be an adult');
+    ar.assertStringMatches(form.email, /@/, 'invalid email');
+    assert.equal(ar.confirm(() => ar.assertString(1)), false);
+    reachedEnd = true;
+    return form;
+  });
+  assert.equal(reachedEnd, true);
+  assert.equal(result.ok, false);
+  assert.deepEqual(result.value, { fallback: true });
+  assert.deepEqual(result.errors.map((e) => e.message), ['name is required', 'must be an adult', 'invalid email']);
+
+  let afterCheckpoint = false;
+  const stopped = v.routeSoft(null, () => {
+    ar.assertString(1);
+    v.checkpoint();
+    afterCheckpoint = true;
+  });
+  assert.equal(afterCheckpoint, false);
+  assert.deepEqual(stopped.errors.map((e) => e.code), ['NOT_STRING']);
+
+  const crashed = v.routeSoft(null, () => {
+    ar.assertObject(undefined);
+    return undefined.length;
+  });
+  assert.deepEqual(crashed.errors.map((e) => e.code), ['NOT_OBJECT']);
+
+  const passed = v.routeSoft(null, () => 'ok');
+  assert.deepEqual({ ok: passed.ok, value: passed.value, errors: passed.errors }, { ok: true, value: 'ok', errors: [] });
+});
+
+test('withAssertContext merges context across await and keeps concurrent scopes apart', async () => {
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 1));
+  const failIn = (id) =>
+    ar.withAssertContext({ requestId: id }, async () => {
+      await tick();
+      return ar.withAssertContext({ step: 'load' }, async () => {
+        await tick();
+        assert.deepEqual(ar.getAssertContext(), { requestId: id, step: 'load' });
+        try {
+          ar.assertString(id.length);
+        } catch (e) {
+          return e;
+        }
+      });
+    });
+  const [a, b] = await Promise.all([failIn('a'), failIn('bb')]);
+  assert.deepEqual(a.context, { requestId: 'a', step: 'load' });
+  assert.deepEqual(b.context, { requestId: 'bb', step: 'load' });
+  assert.deepEqual(ar.getAssertContext(), {});
+
+  const seen = [];
+  await ar.withAssertContext(
+    { requestId: 'outer' },
+    async () => {
+      await tick();
+      await ar.withAssertContext(
+        { requestId: 'inner' },
+        async () => {
+          await tick();
+          assert.throws(() => ar.assertNumber('x'));
+        },
+        (e) => seen.push(`inner:${e.context.requestId}`)
+      );
+    },
+    (e) => seen.push(`outer:${e.context.requestId}`)
+  );
+  assert.deepEqual(seen, ['inner:inner', 'outer:inner']);
+});
@@ -9,21 +9,520 @@
 // Error type
 // ===============
 
+/**
+ * Machine-readable failure codes carried by `AssertError.code`.
+ * - ASSERT_FAILED: generic failure from `assert()` or a hand-built AssertError
+ * - UNEXPECTED_ERROR: a non-AssertError converted by a route with catchNonAssertErrors=true
+ * - ROUTE_TIMEOUT / ROUTE_ABORTED: an async route exceeded `timeoutMs` or its `signal` was aborted
+ * - all others: specific failures of the built-in assert* helpers
+ */
+export type AssertErrorCode =
+  // generic
+  | 'ASSERT_FAILED'
+  | 'UNEXPECTED_ERROR'
+  | 'ROUTE_TIMEOUT'
+  | 'ROUTE_ABORTED'
+  | 'PREDICATE_FAILED'
+  | 'GUARD_MATCHED'
+  // types
+  | 'NOT_STRING'
+  | 'NOT_NUMBER'
+  | 'NOT_BOOLEAN'
+  | 'NOT_ARRAY'
+  | 'NOT_OBJECT'
+  | 'NOT_DATE'
+  | 'NOT_FUNCTION'
+  | 'NOT_PROMISE_LIKE'
+  | 'NOT_ELEMENT'
+  | 'NOT_MAP'
+  | 'NOT_SET'
+  | 'NOT_INSTANCE'
+  // presence and literals
+  | 'VALUE_UNDEFINED'
+  | 'VALUE_NULL'
+  | 'VALUE_MISSING'
+  | 'VALUE_FALSY'
+  | 'NOT_TRUE'
+  | 'NOT_FALSE'
+  | 'NOT_NULL'
+  | 'NOT_UNDEFINED'
+  | 'NOT_ONE_OF'
+  // equality
+  | 'NOT_EQUAL'
+  | 'UNEXPECTED_EQUAL'
+  | 'NOT_DEEP_EQUAL'
+  // strings
+  | 'STRING_EMPTY'
+  | 'STRING_BLANK'
+  | 'STRING_LENGTH_MISMATCH'
+  | 'STRING_TOO_SHORT'
+  | 'STRING_TOO_LONG'
+  | 'STRING_LENGTH_OUT_OF_RANGE'
+  | 'STRING_NOT_CONTAINS'
+  | 'STRING_NOT_STARTS_WITH'
+  | 'STRING_NOT_ENDS_WITH'
+  | 'STRING_PATTERN_MISMATCH'
+  | 'STRING_NOT_EQUAL'
+  | 'STRING_MISSING_ANY'
+  | 'STRING_MISSING_ALL'
+  | 'STRING_NOT_JSON'
+  // numbers
+  | 'NUMBER_ZERO'
+  | 'NUMBER_NOT_GREATER'
+  | 'NUMBER_NOT_GREATER_OR_EQUAL'
+  | 'NUMBER_NOT_LESS'
+  | 'NUMBER_NOT_LESS_OR_EQUAL'
+  | 'NUMBER_OUT_OF_RANGE'
+  | 'NUMBER_NOT_POSITIVE'
+  | 'NUMBER_NOT_NON_NEGATIVE'
+  | 'NUMBER_NOT_NEGATIVE'
+  | 'NUMBER_NOT_NON_POSITIVE'
+  | 'NUMBER_NOT_INTEGER'
+  | 'NUMBER_NOT_SAFE_INTEGER'
+  | 'NUMBER_NOT_APPROX_EQUAL'
+  // arrays
+  | 'ARRAY_EMPTY'
+  | 'ARRAY_LENGTH_MISMATCH'
+  | 'ARRAY_MISSING_ANY'
+  | 'ARRAY_MISSING_ITEMS'
+  | 'ARRAY_NOT_INCLUDES'
+  | 'ARRAY_ITEM_TYPE'
+  | 'ARRAY_ITEM_NOT_FALSY'
+  | 'ARRAY_ITEM_NOT_TRUTHY'
+  | 'ARRAY_ITEM_MISSING_KEY'
+  | 'ARRAY_DUPLICATE_ITEM'
+  // objects
+  | 'OBJECT_EMPTY'
+  | 'OBJECT_MISSING_KEY'
+  | 'OBJECT_KEY_MISMATCH'
+  | 'OBJECT_KEYS_MISMATCH'
+  | 'OBJECT_VALUE_NOT_FALSY'
+  | 'OBJECT_VALUE_MISSING'
+  | 'OBJECT_NO_NULL_VALUE'
+  | 'OBJECT_MISSING_PATH'
+  | 'OBJECT_UNKNOWN_KEYS'
+  | 'SCHEMA_PREDICATE_FAILED'
+  | 'UNION_NO_MATCH'
+  | 'UNION_MULTIPLE_MATCH'
+  | 'PARSE_FAILED'
+  | 'UNHANDLED_CASE'
+  // maps / sets
+  | 'MAP_MISSING_KEY'
+  | 'SET_MISSING_VALUE'
+  // elements
+  | 'ELEMENT_NO_CHILDREN'
+  | 'ELEMENT_NO_MATCHING_CHILD'
+  | 'ELEMENT_NO_DESCENDANT'
+  | 'ELEMENT_MISSING_ATTRIBUTE'
+  | 'ELEMENT_ATTRIBUTE_MISMATCH'
+  | 'ELEMENT_NOT_HIDDEN'
+  | 'ELEMENT_NOT_VISIBLE'
+  // dates
+  | 'DATE_INVALID_FORMAT'
+  | 'DATE_NOT_BEFORE'
+  | 'DATE_NOT_AFTER'
+  | 'DATE_NOT_ON_OR_BEFORE'
+  | 'DATE_NOT_ON_OR_AFTER'
+  | 'DATE_OUT_OF_RANGE'
+  | 'DATE_NOT_IN_PAST'
+  | 'DATE_NOT_IN_FUTURE'
+  | 'DATE_NOT_WITHIN_WINDOW'
+  | 'DATE_YEAR_MISMATCH'
+  | 'DATE_MONTH_MISMATCH'
+  | 'DATE_DAY_MISMATCH'
+  | 'TIMESPAN_TOO_LONG'
+  | 'TIMESPAN_OUT_OF_RANGE';
+
+/**
+ * Structured description of a failed assertion, attached to every AssertError thrown by the
+ * built-in helpers so callers can map failures without parsing messages.
+ */
+export type AssertFailure = {
+  /** Machine-readable code, e.g. "NUMBER_OUT_OF_RANGE". */
+  code: AssertErrorCode;
+  /** Name of the assertion that failed, e.g. "assertNumberBetween". */
+  assertion?: string;
+  /** What the assertion expected: a type name, a bound, a pattern, a set of keys, ... */
+  expected?: unknown;
+  /** The checked value (or the measured property, e.g. a length), safely summarized. */
+  actual?: unknown;
+  /** Location of the failing value inside the checked input, e.g. "address.zip" or "[2]". */
+  path?: string;
+};
+
+/** Limits used by summarizeValue to keep `expected`/`actual` small and JSON-safe. */
+const SUMMARY_MAX_STRING = 120;
+const SUMMARY_MAX_ENTRIES = 10;
+const SUMMARY_MAX_DEPTH = 2;
+
+/**
+ * Produce a small, JSON-safe summary of an arbitrary value for error details:
+ * long strings are truncated, large arrays/objects are cut off, nesting is depth-limited
+ * (which also makes cyclic structures safe) and functions/symbols/bigints become strings.
+ */
+function summarizeValue(x: unknown, depth = 0): unknown {
+  if (x === null || x === undefined || typeof x === 'boolean' || typeof x === 'number') return x;
+  if (typeof x === 'string') return x.length > SUMMARY_MAX_STRING ? `${x.slice(0, SUMMARY_MAX_STRING)}… (${x.length} chars)` : x;
+  if (typeof x === 'bigint') return `${x}n`;
+  if (typeof x === 'symbol') return x.toString();
+  if (typeof x === 'function') return `[Function ${x.name || 'anonymous'}]`;
+  if (x instanceof Date) return Number.isNaN(x.getTime()) ? 'Invalid Date' : x.toISOString();
+  if (x instanceof RegExp) return String(x);
+  if (Array.isArray(x)) {
+    if (depth >= SUMMARY_MAX_DEPTH) return `[Array(${x.length})]`;
+    const items = x.slice(0, SUMMARY_MAX_ENTRIES).map((item) => summarizeValue(item, depth + 1));
+    if (x.length > SUMMARY_MAX_ENTRIES) items.push(`… ${x.length - SUMMARY_MAX_ENTRIES} more`);
+    return items;
+  }
+  if (typeof x === 'object') {
+    const ctorName = (x as any).constructor?.name;
+    if (ctorName && ctorName !== 'Object') return `[${ctorName}]`;
+    const keys = Object.keys(x as object);
+    if (depth >= SUMMARY_MAX_DEPTH) return `[Object(${keys.length} keys)]`;
+    const out: Record<string, unknown> = {};
+    for (const k of keys.slice(0, SUMMARY_MAX_ENTRIES)) out[k] = summarizeValue((x as Record<string, unknown>)[k], depth + 1);
+    if (keys.length > SUMMARY_MAX_ENTRIES) out['…'] = `${keys.length - SUMMARY_MAX_ENTRIES} more keys`;
+    return out;
+  }
+  return String(x);
+}
+
 /**
  * Error thrown when an assertion fails.
- * - code: always "ASSERT_FAILED"
+ * - code: machine-readable failure code ("ASSERT_FAILED" for plain `assert()`)
+ * - assertion / expected / actual / path: structured failure details (see AssertFailure)
  * - info: optional extra context provided by the assertion site
+ * - context: merged context of the withAssertContext scopes the error was created in
  */
 export class AssertError extends Error {
-  readonly code = 'ASSERT_FAILED' as const;
+  readonly code: AssertErrorCode;
+  readonly assertion?: string;
+  readonly expected?: unknown;
+  readonly actual?: unknown;
+  readonly path?: string;
   readonly info?: Record<string, unknown>;
-  constructor(message: string, info?: Record<string, unknown>) {
+  readonly context?: Readonly<AssertContext>;
+  constructor(message: string, info?: Record<string, unknown>, failure?: Partial<AssertFailure>) {
     super(message);
     this.name = 'AssertError';
     this.info = info;
+    this.code = failure?.code ?? 'ASSERT_FAILED';
+    this.assertion = failure?.assertion;
+    this.expected = summarizeValue(failure?.expected);
+    this.actual = summarizeValue(failure?.actual);
+    this.path = failure?.path;
+    this.context = currentAssertContextFrame()?.context;
+  }
+
+  /** Structured failure details (without message/stack), e.g. for mapping to API error payloads. */
+  get failure(): AssertFailure {
+    return { code: this.code, assertion: this.assertion, expected: this.expected, actual: this.actual, path: this.path };
+  }
+
+  /** Serializes message plus structured details and context; `info` is omitted as it may hold raw values. */
+  toJSON() {
+    return { name: this.name, message: this.message, ...this.failure, context: this.context };
   }
 }
 
+// ===============
+// Failure messages: plain strings, templates and lazy factories
+// ===============
+
+/**
+ * Message for a failing assertion, accepted by every `message` parameter:
+ * - a string, optionally with placeholders filled from the failure: `{actual}`, `{expected}`, `{path}`,
+ *   `{code}`, `{assertion}`, also nested like `{expected.min}` (values are summarized like on AssertError;
+ *   strings in `{actual}` and compared values in `{expected}`, as for assertEquals, are quoted)
+ * - a factory `(ctx) => string`, only called when the assertion fails (ctx holds the raw values)
+ *
+ * @example
+ * assertNumberBetween(age, 0, 130, 'age must be {expected.min}-{expected.max}, got {actual}');
+ * assertEquals(a, b, (ctx) => `diff: ${expensiveDiff(ctx.actual, ctx.expected)}`);
+ */
+export type AssertMessage = string | ((ctx: AssertFailure) => string);
+
+const MESSAGE_PLACEHOLDER = /\{(code|assertion|expected|actual|path)((?:\.[\w$]+)*)\}/g;
+
+/** Render a placeholder value: strings as-is (JSON-quoted with quote), everything else as summarized JSON. */
+function formatMessageValue(x: unknown, quote = false): string {
+  const summary = summarizeValue(x);
+  if (typeof summary === 'string') return quote && typeof x === 'string' ? JSON.stringify(summary) : summary;
+  return JSON.stringify(summary) ?? String(summary);
+}
+
+/** Codes whose `expected` is a value to compare with (not a description like '> 0'), so strings are quoted like `actual`. */
+const VALUE_EXPECTED_CODES: ReadonlySet<AssertErrorCode> = new Set(['NOT_EQUAL', 'OBJECT_KEY_MISMATCH', 'MAP_MISSING_KEY', 'SET_MISSING_VALUE']);
+
+/** Turn an AssertMessage into the final message text for a failure. */
+function renderMessage(message: AssertMessage, failure: AssertFailure): string {
+  if (typeof message === 'function') return message(failure);
+  if (!message.includes('{')) return message;
+  return message.replace(MESSAGE_PLACEHOLDER, (_, key: keyof AssertFailure, nested: string) => {
+    let value: unknown = failure[key];
+    for (const prop of nested.split('.').slice(1)) value = value == null ? undefined : (value as Record<string, unknown>)[prop];
+    // string values are quoted, so '1' and 1 read differently
+    return formatMessageValue(value, key === 'actual' || (key === 'expected' && VALUE_EXPECTED_CODES.has(failure.code)));
+  });
+}
+
+// ===============
+// Message catalog: default messages per failure code, per locale
+// ===============
+
+/** Default messages keyed by failure code; entries are templates or factories like any AssertMessage. */
+export type AssertMessageCatalog = Partial<Record<AssertErrorCode, AssertMessage>>;
+
+const EN_MESSAGES: Record<AssertErrorCode, AssertMessage> = {
+  ASSERT_FAILED: 'Assertion failed',
+  UNEXPECTED_ERROR: 'Unexpected error',
+  ROUTE_TIMEOUT: 'Route timed out after {expected.timeoutMs}ms',
+  ROUTE_ABORTED: 'Route aborted',
+  PREDICATE_FAILED: 'Additional assertion failed ({expected})',
+  GUARD_MATCHED: 'Expected value not to match {expected}',
+  NOT_STRING: 'Expected string',
+  NOT_NUMBER: 'Expected number',
+  NOT_BOOLEAN: 'Expected boolean',
+  NOT_ARRAY: 'Expected array',
+  NOT_OBJECT: 'Expected object',
+  NOT_DATE: 'Expected Date',
+  NOT_FUNCTION: 'Expected function',
+  NOT_PROMISE_LIKE: 'Expected Promise-like',
+  NOT_ELEMENT: 'Expected Element',
+  NOT_MAP: 'Expected Map',
+  NOT_SET: 'Expected Set',
+  NOT_INSTANCE: 'Expected instance of {expected}',
+  VALUE_UNDEFINED: 'Expected defined',
+  VALUE_NULL: 'Expected non-null',
+  VALUE_MISSING: 'Expected value present',
+  VALUE_FALSY: 'Expected value truthy',
+  NOT_TRUE: 'Expected true',
+  NOT_FALSE: 'Expected false',
+  NOT_NULL: 'Expected null',
+  NOT_UNDEFINED: 'Expected undefined',
+  NOT_ONE_OF: 'Expected one of {expected}',
+  NOT_EQUAL: 'Expected {actual} === {expected}',
+  UNEXPECTED_EQUAL: 'Expected values to differ',
+  NOT_DEEP_EQUAL: 'Expected deep equality',
+  STRING_EMPTY: 'Expected non-empty string',
+  STRING_BLANK: 'Expected non-empty (trimmed)',
+  STRING_LENGTH_MISMATCH: 'Expected string length {expected}',
+  STRING_TOO_SHORT: 'Expected string length >= {expected}',
+  STRING_TOO_LONG: 'Expected string length <= {expected}',
+  STRING_LENGTH_OUT_OF_RANGE: 'Expected string length between {expected.min} and {expected.max}',
+  STRING_NOT_CONTAINS: 'Expected string to contain {expected}',
+  STRING_NOT_STARTS_WITH: 'Expected string to start with "{expected}"',
+  STRING_NOT_ENDS_WITH: 'Expected string to end with "{expected}"',
+  STRING_PATTERN_MISMATCH: 'Expected string to match {expected}',
+  STRING_NOT_EQUAL: 'Expected "{expected}"',
+  STRING_MISSING_ANY: 'Expected string to include any of {expected}',
+  STRING_MISSING_ALL: 'Expected string to include all of {expected}',
+  STRING_NOT_JSON: 'Expected valid JSON',
+  NUMBER_ZERO: 'Expected non-zero number',
+  NUMBER_NOT_GREATER: 'Expected > {expected}',
+  NUMBER_NOT_GREATER_OR_EQUAL: 'Expected >= {expected}',
+  NUMBER_NOT_LESS: 'Expected < {expected}',
+  NUMBER_NOT_LESS_OR_EQUAL: 'Expected <= {expected}',
+  NUMBER_OUT_OF_RANGE: 'Expected between {expected.min} and {expected.max}',
+  NUMBER_NOT_POSITIVE: 'Expected positive number',
+  NUMBER_NOT_NON_NEGATIVE: 'Expected non-negative number',
+  NUMBER_NOT_NEGATIVE: 'Expected negative number',
+  NUMBER_NOT_NON_POSITIVE: 'Expected non-positive number',
+  NUMBER_NOT_INTEGER: 'Expected integer',
+  NUMBER_NOT_SAFE_INTEGER: 'Expected safe integer',
+  NUMBER_NOT_APPROX_EQUAL: 'Expected approximately {expected.value} ± {expected.epsilon}',
+  ARRAY_EMPTY: 'Expected non-empty array',
+  ARRAY_LENGTH_MISMATCH: 'Expected array length {expected}',
+  ARRAY_MISSING_ANY: 'Expected array to contain any of {expected}',
+  ARRAY_MISSING_ITEMS: 'Missing required items: {expected}',
+  ARRAY_NOT_INCLUDES: 'Expected array to include {expected}',
+  ARRAY_ITEM_TYPE: 'Expected {expected} at {path}',
+  ARRAY_ITEM_NOT_FALSY: 'Expected every item to be falsy',
+  ARRAY_ITEM_NOT_TRUTHY: 'Expected every item to be truthy',
+  ARRAY_ITEM_MISSING_KEY: 'Expected every object in array to have keys: {expected}',
+  ARRAY_DUPLICATE_ITEM: 'Expected array with unique items',
+  OBJECT_EMPTY: 'Expected non-empty object',
+  OBJECT_MISSING_KEY: 'Expected key "{path}"',
+  OBJECT_KEY_MISMATCH: 'Expected key "{path}" to equal {expected}',
+  OBJECT_KEYS_MISMATCH: 'Expected same keys',
+  OBJECT_VALUE_NOT_FALSY: 'Expected all keys to be falsy',
+  OBJECT_VALUE_MISSING: 'Expected all keys to be set (not null/undefined)',
+  OBJECT_NO_NULL_VALUE: 'Expected any key to be null',
+  OBJECT_MISSING_PATH: 'Missing path: {expected}',
+  OBJECT_UNKNOWN_KEYS: 'Unexpected keys: {actual}',
+  SCHEMA_PREDICATE_FAILED: 'Schema predicate failed at {path}',
+  UNION_NO_MATCH: 'Expected {expected}',
+  UNION_MULTIPLE_MATCH: 'Expected exactly one of {expected} to match',
+  PARSE_FAILED: 'Invalid input at {actual}',
+  UNHANDLED_CASE: 'Unhandled case: {actual}',
+  MAP_MISSING_KEY: 'Expected Map to have key {expected}',
+  SET_MISSING_VALUE: 'Expected Set to contain {expected}',
+  ELEMENT_NO_CHILDREN: 'Expected element to have children',
+  ELEMENT_NO_MATCHING_CHILD: 'Expected child matching "{expected}"',
+  ELEMENT_NO_DESCENDANT: 'Expected descendant matching "{expected}"',
+  ELEMENT_MISSING_ATTRIBUTE: 'Expected element to have attribute "{expected}"',
+  ELEMENT_ATTRIBUTE_MISMATCH: 'Expected attribute "{path}" to equal "{expected}"',
+  ELEMENT_NOT_HIDDEN: 'Expected element to be hidden',
+  ELEMENT_NOT_VISIBLE: 'Expected element to be visible',
+  DATE_INVALID_FORMAT: 'Unrecognized date format, expected {expected}',
+  DATE_NOT_BEFORE: 'Expected date before {expected}',
+  DATE_NOT_AFTER: 'Expected date after {expected}',
+  DATE_NOT_ON_OR_BEFORE: 'Expected date on or before {expected}',
+  DATE_NOT_ON_OR_AFTER: 'Expected date on or after {expected}',
+  DATE_OUT_OF_RANGE: 'Expected date between {expected.min} and {expected.max}',
+  DATE_NOT_IN_PAST: 'Expected date in the past',
+  DATE_NOT_IN_FUTURE: 'Expected date in the future',
+  DATE_NOT_WITHIN_WINDOW: 'Expected date within {expected.windowMs}ms from now',
+  DATE_YEAR_MISMATCH: 'Expected year {expected}',
+  DATE_MONTH_MISMATCH: 'Expected same month as {expected}',
+  DATE_DAY_MISMATCH: 'Expected same day as {expected}',
+  TIMESPAN_TOO_LONG: 'Expected shorter timespan (got {actual}ms)',
+  TIMESPAN_OUT_OF_RANGE: 'Expected timespan between {expected.minMs}ms and {expected.maxMs}ms',
+};
+
+const NL_MESSAGES: AssertMessageCatalog = {
+  ASSERT_FAILED: 'Controle mislukt',
+  UNEXPECTED_ERROR: 'Onverwachte fout',
+  ROUTE_TIMEOUT: 'Route duurde langer dan {expected.timeoutMs}ms',
+  ROUTE_ABORTED: 'Route afgebroken',
+  PREDICATE_FAILED: 'Aanvullende controle mislukt ({expected})',
+  GUARD_MATCHED: 'Verwacht dat de waarde niet voldoet aan {expected}',
+  NOT_STRING: 'Verwacht tekst',
+  NOT_NUMBER: 'Verwacht getal',
+  NOT_BOOLEAN: 'Verwacht ja/nee-waarde',
+  NOT_ARRAY: 'Verwacht lijst',
+  NOT_OBJECT: 'Verwacht object',
+  NOT_DATE: 'Verwacht datum',
+  NOT_FUNCTION: 'Verwacht functie',
+  NOT_PROMISE_LIKE: 'Verwacht Promise',
+  NOT_ELEMENT: 'Verwacht element',
+  NOT_MAP: 'Verwacht Map',
+  NOT_SET: 'Verwacht Set',
+  NOT_INSTANCE: 'Verwacht instantie van {expected}',
+  VALUE_UNDEFINED: 'Waarde ontbreekt',
+  VALUE_NULL: 'Waarde mag niet leeg (null) zijn',
+  VALUE_MISSING: 'Waarde ontbreekt',
+  VALUE_FALSY: 'Waarde ontbreekt of is leeg',
+  NOT_TRUE: 'Verwacht waar',
+  NOT_FALSE: 'Verwacht onwaar',
+  NOT_NULL: 'Verwacht null',
+  NOT_UNDEFINED: 'Verwacht geen waarde',
+  NOT_ONE_OF: 'Verwacht een van {expected}',
+  NOT_EQUAL: 'Verwacht {expected}, kreeg {actual}',
+  UNEXPECTED_EQUAL: 'Waarden mogen niet gelijk zijn',
+  NOT_DEEP_EQUAL: 'Waarden zijn niet gelijk',
+  STRING_EMPTY: 'Tekst mag niet leeg zijn',
+  STRING_BLANK: 'Tekst mag niet leeg zijn',
+  STRING_LENGTH_MISMATCH: 'Tekst moet {expected} tekens lang zijn',
+  STRING_TOO_SHORT: 'Tekst moet minimaal {expected} tekens lang zijn',
+  STRING_TOO_LONG: 'Tekst mag maximaal {expected} tekens lang zijn',
+  STRING_LENGTH_OUT_OF_RANGE: 'Tekst moet tussen {expected.min} en {expected.max} tekens lang zijn',
+  STRING_NOT_CONTAINS: 'Tekst moet {expected} bevatten',
+  STRING_NOT_STARTS_WITH: 'Tekst moet beginnen met "{expected}"',
+  STRING_NOT_ENDS_WITH: 'Tekst moet eindigen op "{expected}"',
+  STRING_PATTERN_MISMATCH: 'Tekst heeft een ongeldig formaat',
+  STRING_NOT_EQUAL: 'Verwacht "{expected}"',
+  STRING_MISSING_ANY: 'Tekst moet een van {expected} bevatten',
+  STRING_MISSING_ALL: 'Tekst moet {expected} bevatten',
+  STRING_NOT_JSON: 'Verwacht geldige JSON',
+  NUMBER_ZERO: 'Getal mag niet nul zijn',
+  NUMBER_NOT_GREATER: 'Getal moet groter zijn dan {expected}',
+  NUMBER_NOT_GREATER_OR_EQUAL: 'Getal moet minimaal {expected} zijn',
+  NUMBER_NOT_LESS: 'Getal moet kleiner zijn dan {expected}',
+  NUMBER_NOT_LESS_OR_EQUAL: 'Getal mag maximaal {expected} zijn',
+  NUMBER_OUT_OF_RANGE: 'Getal moet tussen {expected.min} en {expected.max} liggen',
+  NUMBER_NOT_POSITIVE: 'Getal moet positief zijn',
+  NUMBER_NOT_NON_NEGATIVE: 'Getal mag niet negatief zijn',
+  NUMBER_NOT_NEGATIVE: 'Getal moet negatief zijn',
+  NUMBER_NOT_NON_POSITIVE: 'Getal mag niet positief zijn',
+  NUMBER_NOT_INTEGER: 'Verwacht geheel getal',
+  NUMBER_NOT_SAFE_INTEGER: 'Verwacht veilig geheel getal',
+  NUMBER_NOT_APPROX_EQUAL: 'Verwacht ongeveer {expected.value} ± {expected.epsilon}',
+  ARRAY_EMPTY: 'Lijst mag niet leeg zijn',
+  ARRAY_LENGTH_MISMATCH: 'Lijst moet {expected} items bevatten',
+  ARRAY_MISSING_ANY: 'Lijst moet een van {expected} bevatten',
+  ARRAY_MISSING_ITEMS: 'Verplichte items ontbreken: {expected}',
+  ARRAY_NOT_INCLUDES: 'Lijst moet {expected} bevatten',
+  ARRAY_ITEM_TYPE: 'Verwacht {expected} op {path}',
+  ARRAY_ITEM_NOT_FALSY: 'Alle items moeten leeg zijn',
+  ARRAY_ITEM_NOT_TRUTHY: 'Geen enkel item mag leeg zijn',
+  ARRAY_ITEM_MISSING_KEY: 'Elk object in de lijst moet de sleutels {expected} hebben',
+  ARRAY_DUPLICATE_ITEM: 'Lijst mag geen dubbele items bevatten',
+  OBJECT_EMPTY: 'Object mag niet leeg zijn',
+  OBJECT_MISSING_KEY: 'Veld "{path}" ontbreekt',
+  OBJECT_KEY_MISMATCH: 'Veld "{path}" moet gelijk zijn aan {expected}',
+  OBJECT_KEYS_MISMATCH: 'Objecten moeten dezelfde velden hebben',
+  OBJECT_VALUE_NOT_FALSY: 'Alle velden moeten leeg zijn',
+  OBJECT_VALUE_MISSING: 'Alle velden moeten ingevuld zijn',
+  OBJECT_NO_NULL_VALUE: 'Minstens een veld moet null zijn',
+  OBJECT_MISSING_PATH: 'Pad ontbreekt: {expected}',
+  OBJECT_UNKNOWN_KEYS: 'Onbekende velden: {actual}',
+  SCHEMA_PREDICATE_FAILED: 'Ongeldige waarde voor {path}',
+  UNION_NO_MATCH: 'Verwacht {expected}',
+  UNION_MULTIPLE_MATCH: 'Verwacht dat precies één van {expected} past',
+  PARSE_FAILED: 'Ongeldige invoer bij {actual}',
+  UNHANDLED_CASE: 'Onbehandeld geval: {actual}',
+  MAP_MISSING_KEY: 'Map mist sleutel {expected}',
+  SET_MISSING_VALUE: 'Set mist waarde {expected}',
+  ELEMENT_NO_CHILDREN: 'Element moet onderliggende elementen hebben',
+  ELEMENT_NO_MATCHING_CHILD: 'Verwacht onderliggend element dat overeenkomt met "{expected}"',
+  ELEMENT_NO_DESCENDANT: 'Verwacht element binnenin dat overeenkomt met "{expected}"',
+  ELEMENT_MISSING_ATTRIBUTE: 'Element moet attribuut "{expected}" hebben',
+  ELEMENT_ATTRIBUTE_MISMATCH: 'Attribuut "{path}" moet "{expected}" zijn',
+  ELEMENT_NOT_HIDDEN: 'Element moet verborgen zijn',
+  ELEMENT_NOT_VISIBLE: 'Element moet zichtbaar zijn',
+  DATE_INVALID_FORMAT: 'Onbekend datumformaat, verwacht {expected}',
+  DATE_NOT_BEFORE: 'Datum moet voor {expected} liggen',
+  DATE_NOT_AFTER: 'Datum moet na {expected} liggen',
+  DATE_NOT_ON_OR_BEFORE: 'Datum mag niet na {expected} liggen',
+  DATE_NOT_ON_OR_AFTER: 'Datum mag niet voor {expected} liggen',
+  DATE_OUT_OF_RANGE: 'Datum moet tussen {expected.min} en {expected.max} liggen',
+  DATE_NOT_IN_PAST: 'Datum moet in het verleden liggen',
+  DATE_NOT_IN_FUTURE: 'Datum moet in de toekomst liggen',
+  DATE_NOT_WITHIN_WINDOW: 'Datum moet binnen {expected.windowMs}ms van nu liggen',
+  DATE_YEAR_MISMATCH: 'Verwacht jaar {expected}',
+  DATE_MONTH_MISMATCH: 'Verwacht dezelfde maand als {expected}',
+  DATE_DAY_MISMATCH: 'Verwacht dezelfde dag als {expected}',
+  TIMESPAN_TOO_LONG: 'Tijdsduur is te lang ({actual}ms)',
+  TIMESPAN_OUT_OF_RANGE: 'Tijdsduur moet tussen {expected.minMs}ms en {expected.maxMs}ms liggen',
+};
+
+/** Registered catalogs per locale; 'en' is complete and used for codes a locale does not cover. */
+const __assertMessages: Record<string, AssertMessageCatalog> = { en: { ...EN_MESSAGES }, nl: { ...NL_MESSAGES } };
+let __assertLocale = 'en';
+
+/**
+ * Add or override default messages for a locale (merged with earlier registrations).
+ *
+ * @example
+ * registerMessages('de', { NOT_STRING: 'Text erwartet', STRING_TOO_SHORT: 'Mindestens {expected} Zeichen' });
+ * registerMessages('en', { OBJECT_MISSING_KEY: '{path} is required' }); // tweak the built-in wording
+ */
+export function registerMessages(locale: string, messages: AssertMessageCatalog): void {
+  __assertMessages[locale] = { ...__assertMessages[locale], ...messages };
+}
+
+/**
+ * Set the locale for default messages (built in: 'en', 'nl'). Region variants fall back to their
+ * language ('nl-BE' -> 'nl'), unknown codes to English. A string `locale` in the withAssertContext
+ * context overrides this per request.
+ */
+export function setAssertLocale(locale: string): void {
+  __assertLocale = locale;
+}
+
+/** The locale used for default messages right now (context `locale` first, then setAssertLocale). */
+export function getAssertLocale(): string {
+  const { locale } = getAssertContext();
+  return typeof locale === 'string' ? locale : __assertLocale;
+}
+
+/** Default message for a failure code in the active locale. */
+function defaultMessage(code: AssertErrorCode): AssertMessage {
+  const locale = getAssertLocale();
+  return __assertMessages[locale]?.[code] ?? __assertMessages[locale.split('-')[0]]?.[code] ?? __assertMessages.en[code] ?? EN_MESSAGES[code];
+}
+
 // ===============
 // Global AssertError handling
 // ===============
@@ -33,13 +532,199 @@ let __assertGlobalOnError: ((err: AssertError) => void) | undefined;
 
 /**
  * Set or clear a global onError handler for all assertion failures.
- * The handler is invoked right before an AssertError is thrown by `assert()` or any assert* helper.
+ * The handler is invoked right before an AssertError is thrown by `assert()` or any assert* helper
+ * (after the handlers of enclosing withAssertContext scopes).
  * Note: This does not suppress the throw; use assertRoute/confirm or installAssertErrorTrap to prevent breaks.
  */
 export function setAssertErrorHandler(handler?: (err: AssertError) => void) {
   __assertGlobalOnError = handler;
 }
 
+// ===============
+// Scoped assertion context (per request / job)
+// ===============
+
+/** Key/value context attached to AssertErrors created inside withAssertContext (request id, user, ...). */
+export type AssertContext = Record<string, unknown>;
+
+/** One withAssertContext scope: its merged context, its handler and the enclosing scope. */
+type AssertContextFrame = {
+  readonly context: Readonly<AssertContext>;
+  readonly onError?: (err: AssertError) => void;
+  readonly parent?: AssertContextFrame;
+};
+
+/** The subset of AsyncLocalStorage used for context scopes. */
+type AssertContextStorage = {
+  getStore(): AssertContextFrame | undefined;
+  run<R>(frame: AssertContextFrame, fn: () => R): R;
+};
+
+/** AsyncLocalStorage instance once probed (null when unavailable, undefined before the first scope). */
+let __assertContextStorage: AssertContextStorage | null | undefined;
+/** Active scope when AsyncLocalStorage is unavailable (synchronous stack fallback). */
+let __assertContextFrame: AssertContextFrame | undefined;
+
+/** Find AsyncLocalStorage without a hard dependency on Node: global (Deno/Bun/workers) or process.getBuiltinModule. */
+function assertContextStorage(): AssertContextStorage | null {
+  if (__assertContextStorage === undefined) {
+    try {
+      const g = globalThis as any;
+      const Storage = g.AsyncLocalStorage ?? g.process?.getBuiltinModule?.('node:async_hooks')?.AsyncLocalStorage;
+      __assertContextStorage = Storage ? (new Storage() as AssertContextStorage) : null;
+    } catch {
+      __assertContextStorage = null;
+    }
+  }
+  return __assertContextStorage;
+}
+
+function currentAssertContextFrame(): AssertContextFrame | undefined {
+  return __assertContextStorage ? __assertContextStorage.getStore() : __assertContextFrame;
+}
+
+/**
+ * Run fn with assertion context: every AssertError created inside (also in awaited async work,
+ * where AsyncLocalStorage is available) carries the merged context of all enclosing scopes in
+ * `err.context`, and `onError` is called for each failing assertion, innermost scope first,
+ * before the global handler from setAssertErrorHandler.
+ *
+ * Uses AsyncLocalStorage in Node (>= 20.16), Deno, Bun and edge runtimes that expose it; elsewhere
+ * falls back to a synchronous stack, so context only covers the synchronous part of fn.
+ *
+ * @example
+ * app.use((req, res, next) =>
+ *   withAssertContext({ requestId: req.id, user: req.user?.id }, next, (err) => logger.warn(err.toJSON()))
+ * );
+ */
+export function withAssertContext<T>(context: AssertContext, fn: () => T, onError?: (err: AssertError) => void): T {
+  const parent = currentAssertContextFrame();
+  const frame: AssertContextFrame = { context: { ...parent?.context, ...context }, onError, parent };
+  const storage = assertContextStorage();
+  if (storage) return storage.run(frame, fn);
+  __assertContextFrame = frame;
+  try {
+    return fn();
+  } finally {
+    __assertContextFrame = parent;
+  }
+}
+
+/** The merged context of the active withAssertContext scopes (empty outside any scope). */
+export function getAssertContext(): Readonly<AssertContext> {
+  return currentAssertContextFrame()?.context ?? {};
+}
+
+/**
+ * Throw an AssertError carrying structured failure details, after notifying the global handler.
+ * All built-in assertions fail through here.
+ */
+function fail(failure: AssertFailure, message?: AssertMessage, info?: Record<string, unknown>): never {
+  return raise(new AssertError(renderMessage(message ?? defaultMessage(failure.code), failure), info, failure));
+}
+
+/** Notify the scoped and global handlers of err (unless silenced), then record it in the active soft route or throw it. */
+function raise(err: AssertError): never {
+  if (__assertSilenced === 0) {
+    for (let frame = currentAssertContextFrame(); frame; frame = frame.parent) {
+      try {
+        frame.onError?.(err);
+      } catch {
+        // ignore errors in scoped handlers
+      }
+    }
+    try {
+      __assertGlobalOnError?.(err);
+    } catch {
+      // ignore errors in global handler
+    }
+  }
+  return refail(err);
+}
+
+/** Depth of silentAssertions calls: while > 0, failures reach no handlers. */
+let __assertSilenced = 0;
+
+/** Run fn with failures reaching no handlers; report the outcome yourself with raise() or fail(). */
+function withoutHandlers<T>(fn: () => T): T {
+  __assertSilenced++;
+  try {
+    return fn();
+  } finally {
+    __assertSilenced--;
+  }
+}
+
+/**
+ * Run fn with throwing assertions that do not notify handlers: for trial checks whose failure is
+ * not (yet) a failure of the caller, such as union branches. Report the outcome with raise().
+ */
+function silentAssertions<T>(fn: () => T): T {
+  return withoutHandlers(() => throwingAssertions(fn));
+}
+
+/**
+ * Failure collectors of the active soft routes, innermost last. A `null` frame restores throwing
+ * behavior for code that relies on catching AssertError (nested routes, confirm, report, ...).
+ */
+const __assertCollectors: (AssertError[] | null)[] = [];
+
+/**
+ * Report a failure built from one fail() already passed to the handlers (e.g. caught from a nested
+ * check): an active soft route records it, otherwise it is thrown. Handlers are not notified again.
+ */
+function refail(err: AssertError): never {
+  const collector = __assertCollectors[__assertCollectors.length - 1];
+  if (collector) {
+    collector.push(err);
+    return undefined as never;
+  }
+  throw err;
+}
+
+/** Copy of a caught failure with a new path and, when given, the caller's message. */
+function repathFailure(e: AssertError, path: string | undefined, message?: AssertMessage): AssertError {
+  const failure = { ...e.failure, path };
+  return new AssertError(message === undefined ? e.message : renderMessage(message, failure), e.info, failure);
+}
+
+/** Run fn with throwing assertions, also when called inside a soft route. */
+function throwingAssertions<T>(fn: () => T): T {
+  __assertCollectors.push(null);
+  try {
+    return fn();
+  } finally {
+    __assertCollectors.pop();
+  }
+}
+
+/** Type names checked by the primitive assertions, mapped to their failure codes. */
+type ExpectedType = 'string' | 'number' | 'boolean' | 'array' | 'object' | 'date' | 'function' | 'promise-like' | 'element' | 'map' | 'set';
+const TYPE_FAILURE_CODES: Record<ExpectedType, AssertErrorCode> = {
+  string: 'NOT_STRING',
+  number: 'NOT_NUMBER',
+  boolean: 'NOT_BOOLEAN',
+  array: 'NOT_ARRAY',
+  object: 'NOT_OBJECT',
+  date: 'NOT_DATE',
+  function: 'NOT_FUNCTION',
+  'promise-like': 'NOT_PROMISE_LIKE',
+  element: 'NOT_ELEMENT',
+  map: 'NOT_MAP',
+  set: 'NOT_SET',
+};
+
+/** Shorthand for the "wrong type" failure every compound assertion starts with. */
+function failType(assertion: string, expected: ExpectedType, x: unknown, message?: AssertMessage, info?: Record<string, unknown>): never {
+  return fail({ code: TYPE_FAILURE_CODES[expected], assertion, expected, actual: x }, message, info);
+}
+
+/** Convert a non-AssertError caught by a route into an AssertError (code "UNEXPECTED_ERROR"). */
+function wrapNonAssertError(e: unknown): AssertError {
+  const err = e instanceof Error ? e : new Error(String(e));
+  return new AssertError(err.message, { cause: err }, { code: 'UNEXPECTED_ERROR' });
+}
+
 // ===============
 // Core assert
 // ===============
@@ -57,15 +742,9 @@ export function setAssertErrorHandler(handler?: (err: AssertError) => void) {
  * @param message Error message (default: "Assertion failed")
  * @param info Optional diagnostic info attached to the thrown AssertError
  */
-export function assert(condition: unknown, message = 'Assertion failed', info?: Record<string, unknown>): asserts condition {
+export function assert(condition: unknown, message?: AssertMessage, info?: Record<string, unknown>): asserts condition {
   if (!condition) {
-    const err = new AssertError(message, info);
-    try {
-      __assertGlobalOnError?.(err);
-    } catch {
-      // ignore errors in global handler
-    }
-    throw err;
+    return fail({ code: 'ASSERT_FAILED', assertion: 'assert', expected: 'truthy', actual: condition }, message, info);
   }
 }
 
@@ -138,14 +817,15 @@ export function isObject(x: unknown): x is Record<string, unknown> {
  * Returns true if x is thruthy as a boolean.
  */
 export function isTruthy<T = unknown>(x: unknown): x is T {
-  assert(!!x, 'failed !! ntruthy test');
+  // throws also inside soft routes: a collected failure would still return true
+  throwingAssertions(() => assert(!!x, 'failed !! ntruthy test'));
   return true;
 }
 /*
  * Returns false if undefined or null.
  */
 export function isNotNil<T = unknown>(x: unknown): x is T {
-  assert(x !== null && x !== undefined, 'failed isNotNil test');
+  throwingAssertions(() => assert(x !== null && x !== undefined, 'failed isNotNil test'));
   return true;
 }
 
@@ -223,12 +903,12 @@ export function isInstanceOf<C extends new (...args: any[]) => any>(x: unknown,
 
 export function expectedGuardBoolean<C extends new (...args: any[]) => any>(x: unknown, ctor: C, asst?: (v: InstanceType<C>) => boolean | void): x is InstanceType<C> {
   if (!(typeof ctor === 'function' && x instanceof ctor)) {
-    throw new AssertError('Invalid instance', { got: x, expected: ctor.name ?? ctor });
+    return fail({ code: 'NOT_INSTANCE', assertion: 'expectedGuardBoolean', expected: ctor?.name ?? '<ctor>', actual: x }, undefined, { got: x, expected: ctor.name ?? ctor });
   }
   if (asst) {
     const ok = asst(x as InstanceType<C>);
     if (ok === false) {
-      throw new AssertError('Additional assertion failed', { got: x, expected: asst.name || 'predicate' });
+      return fail({ code: 'PREDICATE_FAILED', assertion: 'expectedGuardBoolean', expected: asst.name || 'predicate', actual: x }, undefined, { got: x, expected: asst.name || 'predicate' });
     }
   }
   return true;
@@ -236,12 +916,12 @@ export function expectedGuardBoolean<C extends new (...args: any[]) => any>(x: u
 
 export function expectedGuard<C extends new (...args: any[]) => any>(x: unknown, ctor: C, asst?: (v: InstanceType<C>) => boolean | void): x is InstanceType<C> {
   if (!(typeof ctor === 'function' && x instanceof ctor)) {
-    throw new AssertError('Invalid instance', { got: x, expected: ctor.name ?? ctor });
+    return fail({ code: 'NOT_INSTANCE', assertion: 'expectedGuard', expected: ctor?.name ?? '<ctor>', actual: x }, undefined, { got: x, expected: ctor.name ?? ctor });
   }
   if (asst) {
     const ok = asst(x as InstanceType<C>);
     if (ok === false) {
-      throw new AssertError('Additional assertion failed', { got: x, expected: asst.name || 'predicate' });
+      return fail({ code: 'PREDICATE_FAILED', assertion: 'expectedGuard', expected: asst.name || 'predicate', actual: x }, undefined, { got: x, expected: asst.name || 'predicate' });
     }
   }
   return x as InstanceType<C>;
@@ -250,12 +930,12 @@ export function expectedGuard<C extends new (...args: any[]) => any>(x: unknown,
 // Value-returning version: convenient when you want the value directly
 export function assertExpected<C extends new (...args: any[]) => any>(x: unknown, ctor: C, asst?: (v: InstanceType<C>) => boolean | void): InstanceType<C> {
   if (!(typeof ctor === 'function' && x instanceof ctor)) {
-    throw new AssertError('Invalid instance', { got: x, expected: ctor.name ?? ctor });
+    return fail({ code: 'NOT_INSTANCE', assertion: 'assertExpected', expected: ctor?.name ?? '<ctor>', actual: x }, undefined, { got: x, expected: ctor.name ?? ctor });
   }
   if (asst) {
     const ok = asst(x as InstanceType<C>);
     if (ok === false) {
-      throw new AssertError('Additional assertion failed', { got: x, expected: asst.name || 'predicate' });
+      return fail({ code: 'PREDICATE_FAILED', assertion: 'assertExpected', expected: asst.name || 'predicate', actual: x }, undefined, { got: x, expected: asst.name || 'predicate' });
     }
   }
   return x as InstanceType<C>;
@@ -274,8 +954,8 @@ export function assertExpected<C extends new (...args: any[]) => any>(x: unknown
  * @param message Custom error message
  * @param info Optional diagnostic info
  */
-export function assertString(x: unknown, message = 'Expected string', info?: Record<string, unknown>): asserts x is string {
-  assert(isString(x), message, { ...info, got: typeof x });
+export function assertString(x: unknown, message?: AssertMessage, info?: Record<string, unknown>): asserts x is string {
+  if (!isString(x)) return failType('assertString', 'string', x, message, { ...info, got: typeof x });
 }
 
 /**
@@ -284,8 +964,8 @@ export function assertString(x: unknown, message = 'Expected string', info?: Rec
  * Narrowing:
  * - On success, narrows x to number.
  */
-export function assertNumber(x: unknown, message = 'Expected number', info?: Record<string, unknown>): asserts x is number {
-  assert(isNumber(x), message, { ...info, got: typeof x });
+export function assertNumber(x: unknown, message?: AssertMessage, info?: Record<string, unknown>): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumber', 'number', x, message, { ...info, got: typeof x });
 }
 
 /**
@@ -294,8 +974,8 @@ export function assertNumber(x: unknown, message = 'Expected number', info?: Rec
  * Narrowing:
  * - On success, narrows x to boolean.
  */
-export function assertBoolean(x: unknown, message = 'Expected boolean', info?: Record<string, unknown>): asserts x is boolean {
-  assert(isBoolean(x), message, { ...info, got: typeof x });
+export function assertBoolean(x: unknown, message?: AssertMessage, info?: Record<string, unknown>): asserts x is boolean {
+  if (!isBoolean(x)) return failType('assertBoolean', 'boolean', x, message, { ...info, got: typeof x });
 }
 
 /**
@@ -304,11 +984,13 @@ export function assertBoolean(x: unknown, message = 'Expected boolean', info?: R
  * Narrowing:
  * - On success, narrows x to T[].
  */
-export function assertArray<T = unknown>(x: unknown, message = 'Expected array', info?: Record<string, unknown>): asserts x is T[] {
-  assert(isArray<T>(x), message, {
-    ...info,
-    got: Array.isArray(x) ? 'array' : typeof x,
-  });
+export function assertArray<T = unknown>(x: unknown, message?: AssertMessage, info?: Record<string, unknown>): asserts x is T[] {
+  if (!isArray<T>(x)) {
+    return failType('assertArray', 'array', x, message, {
+      ...info,
+      got: Array.isArray(x) ? 'array' : typeof x,
+    });
+  }
 }
 
 /**
@@ -317,11 +999,13 @@ export function assertArray<T = unknown>(x: unknown, message = 'Expected array',
  * Narrowing:
  * - On success, narrows x to Record<string, unknown>.
  */
-export function assertObject(x: unknown, message = 'Expected object', info?: Record<string, unknown>): asserts x is Record<string, unknown> {
-  assert(isObject(x), message, {
-    ...info,
-    got: Array.isArray(x) ? 'array' : x === null ? 'null' : typeof x,
-  });
+export function assertObject(x: unknown, message?: AssertMessage, info?: Record<string, unknown>): asserts x is Record<string, unknown> {
+  if (!isObject(x)) {
+    return failType('assertObject', 'object', x, message, {
+      ...info,
+      got: Array.isArray(x) ? 'array' : x === null ? 'null' : typeof x,
+    });
+  }
 }
 
 /**
@@ -330,8 +1014,8 @@ export function assertObject(x: unknown, message = 'Expected object', info?: Rec
  * Narrowing:
  * - On success, narrows x to Date.
  */
-export function assertDate(x: unknown, message = 'Expected Date', info?: Record<string, unknown>): asserts x is Date {
-  assert(isDate(x), message, { ...info, got: typeof x });
+export function assertDate(x: unknown, message?: AssertMessage, info?: Record<string, unknown>): asserts x is Date {
+  if (!isDate(x)) return failType('assertDate', 'date', x, message, { ...info, got: typeof x });
 }
 
 /**
@@ -340,8 +1024,8 @@ export function assertDate(x: unknown, message = 'Expected Date', info?: Record<
  * Narrowing:
  * - On success, narrows x to (...args:any[]) => unknown.
  */
-export function assertFunction(x: unknown, message = 'Expected function', info?: Record<string, unknown>): asserts x is (...args: any[]) => unknown {
-  assert(isFunction(x), message, { ...info, got: typeof x });
+export function assertFunction(x: unknown, message?: AssertMessage, info?: Record<string, unknown>): asserts x is (...args: any[]) => unknown {
+  if (!isFunction(x)) return failType('assertFunction', 'function', x, message, { ...info, got: typeof x });
 }
 
 /**
@@ -350,8 +1034,8 @@ export function assertFunction(x: unknown, message = 'Expected function', info?:
  * Narrowing:
  * - On success, narrows x to PromiseLike<unknown>.
  */
-export function assertPromiseLike<T = unknown>(x: unknown, message = 'Expected Promise-like', info?: Record<string, unknown>): asserts x is PromiseLike<T> {
-  assert(isPromiseLike<T>(x), message, { ...info, got: typeof x });
+export function assertPromiseLike<T = unknown>(x: unknown, message?: AssertMessage, info?: Record<string, unknown>): asserts x is PromiseLike<T> {
+  if (!isPromiseLike<T>(x)) return failType('assertPromiseLike', 'promise-like', x, message, { ...info, got: typeof x });
 }
 
 /**
@@ -360,8 +1044,8 @@ export function assertPromiseLike<T = unknown>(x: unknown, message = 'Expected P
  * Narrowing:
  * - On success, narrows from T | undefined to T.
  */
-export function assertDefined<T>(x: T | undefined, message = 'Expected defined', info?: Record<string, unknown>): asserts x is T {
-  assert(isDefined(x), message, info);
+export function assertDefined<T>(x: T | undefined, message?: AssertMessage, info?: Record<string, unknown>): asserts x is T {
+  if (!isDefined(x)) return fail({ code: 'VALUE_UNDEFINED', assertion: 'assertDefined', expected: 'defined', actual: x }, message, info);
 }
 
 /**
@@ -370,8 +1054,8 @@ export function assertDefined<T>(x: T | undefined, message = 'Expected defined',
  * Narrowing:
  * - On success, narrows from T | null to T.
  */
-export function assertNonNull<T>(x: T | null, message = 'Expected non-null', info?: Record<string, unknown>): asserts x is T {
-  assert(isNonNull(x), message, info);
+export function assertNonNull<T>(x: T | null, message?: AssertMessage, info?: Record<string, unknown>): asserts x is T {
+  if (!isNonNull(x)) return fail({ code: 'VALUE_NULL', assertion: 'assertNonNull', expected: 'non-null', actual: x }, message, info);
 }
 
 /**
@@ -380,8 +1064,8 @@ export function assertNonNull<T>(x: T | null, message = 'Expected non-null', inf
  * Narrowing:
  * - On success, narrows from T | null | undefined to T.
  */
-export function assertPresent<T>(x: T | null | undefined, message = 'Expected value present', info?: Record<string, unknown>): asserts x is T {
-  assert(isPresent(x), message, info);
+export function assertPresent<T>(x: T | null | undefined, message?: AssertMessage, info?: Record<string, unknown>): asserts x is T {
+  if (!isPresent(x)) return fail({ code: 'VALUE_MISSING', assertion: 'assertPresent', expected: 'present', actual: x }, message, info);
 }
 /**
  * Asserts that x is neither not converted to false boolean (truthy, falsey).
@@ -389,13 +1073,13 @@ export function assertPresent<T>(x: T | null | undefined, message = 'Expected va
  * Narrowing:
  * - On success, narrows from T | null | undefined to T.
  */
-export function assertTruthy<T>(x: T | null | undefined, message = 'Expected value truthy', info?: Record<string, unknown>): asserts x is T {
-  assert(isTruthy(x), message, info);
+export function assertTruthy<T>(x: T | null | undefined, message?: AssertMessage, info?: Record<string, unknown>): asserts x is T {
+  if (!x) return fail({ code: 'VALUE_FALSY', assertion: 'assertTruthy', expected: 'truthy', actual: x }, message, info);
 }
 
 /** Alias: asserts that value exists (not null/undefined). */
-export function assertExists<T>(x: T | null | undefined, message = 'Expected value to exist', info?: Record<string, unknown>): asserts x is T {
-  assertPresent(x, message, info);
+export function assertExists<T>(x: T | null | undefined, message?: AssertMessage, info?: Record<string, unknown>): asserts x is T {
+  if (!isPresent(x)) return fail({ code: 'VALUE_MISSING', assertion: 'assertExists', expected: 'present', actual: x }, message, info);
 }
 
 /**
@@ -404,8 +1088,13 @@ export function assertExists<T>(x: T | null | undefined, message = 'Expected val
  * Narrowing:
  * - On success, narrows x to InstanceType<C>.
  */
-export function assertInstanceOf<C extends new (...args: any[]) => any>(x: unknown, ctor: C, message?: string, info?: Record<string, unknown>): asserts x is InstanceType<C> {
-  assert(isInstanceOf(x, ctor), message ?? `Expected instance of ${ctor?.name ?? '<ctor>'}`, { ...info, got: (x as any)?.constructor?.name ?? typeof x });
+export function assertInstanceOf<C extends new (...args: any[]) => any>(x: unknown, ctor: C, message?: AssertMessage, info?: Record<string, unknown>): asserts x is InstanceType<C> {
+  if (!isInstanceOf(x, ctor)) {
+    return fail({ code: 'NOT_INSTANCE', assertion: 'assertInstanceOf', expected: ctor?.name ?? '<ctor>', actual: x }, message, {
+      ...info,
+      got: (x as any)?.constructor?.name ?? typeof x,
+    });
+  }
 }
 
 // ===============
@@ -418,7 +1107,7 @@ export function assertInstanceOf<C extends new (...args: any[]) => any>(x: unkno
  * Narrowing/Return:
  * - Throws on failure; returns string on success.
  */
-export function expectString<T>(x: T, message?: string): string {
+export function expectString<T>(x: T, message?: AssertMessage): string {
   assertString(x as unknown, message);
   return x as unknown as string;
 }
@@ -426,7 +1115,7 @@ export function expectString<T>(x: T, message?: string): string {
 /**
  * Ensures x is a number and returns it.
  */
-export function expectNumber<T>(x: T, message?: string): number {
+export function expectNumber<T>(x: T, message?: AssertMessage): number {
   assertNumber(x as unknown, message);
   return x as unknown as number;
 }
@@ -434,7 +1123,7 @@ export function expectNumber<T>(x: T, message?: string): number {
 /**
  * Ensures x is a HTMLElement and returns it.
  */
-export function expectElement<T>(x: T, message?: string): HTMLElement {
+export function expectElement<T>(x: T, message?: AssertMessage): HTMLElement {
   assertElement(x as unknown, message);
   return x as unknown as HTMLElement;
 }
@@ -442,7 +1131,7 @@ export function expectElement<T>(x: T, message?: string): HTMLElement {
 /**
  * Ensures x is a boolean and returns it.
  */
-export function expectBoolean<T>(x: T, message?: string): boolean {
+export function expectBoolean<T>(x: T, message?: AssertMessage): boolean {
   assertBoolean(x as unknown, message);
   return x as unknown as boolean;
 }
@@ -450,7 +1139,7 @@ export function expectBoolean<T>(x: T, message?: string): boolean {
 /**
  * Ensures x is an array and returns it typed as T[].
  */
-export function expectArray<T = unknown>(x: unknown, message?: string): T[] {
+export function expectArray<T = unknown>(x: unknown, message?: AssertMessage): T[] {
   assertArray<T>(x, message);
   return x as T[];
 }
@@ -458,7 +1147,7 @@ export function expectArray<T = unknown>(x: unknown, message?: string): T[] {
 /**
  * Ensures x is a plain object and returns it.
  */
-export function expectObject(x: unknown, message?: string): Record<string, unknown> {
+export function expectObject(x: unknown, message?: AssertMessage): Record<string, unknown> {
   assertObject(x, message);
   return x as Record<string, unknown>;
 }
@@ -466,7 +1155,7 @@ export function expectObject(x: unknown, message?: string): Record<string, unkno
 /**
  * Ensures x is a Date and returns it.
  */
-export function expectDate(x: unknown, message?: string): Date {
+export function expectDate(x: unknown, message?: AssertMessage): Date {
   assertDate(x, message);
   return x as Date;
 }
@@ -479,84 +1168,285 @@ export function expectDate(x: unknown, message?: string): Date {
  * Options controlling how assertRoute/assertRouteAsync handle errors.
  * - onError: callback invoked for caught AssertError (and optionally other errors)
  * - catchNonAssertErrors: when true, also catch and convert non-AssertError errors to fallback
+ * - timeoutMs / signal (async routes only): bound or cancel a call; see AbortableRouteOptions
+ * - retry (async routes only): retry failed attempts before falling back; see RouteRetryPolicy
+ * - middleware: route-specific hooks; see RouteMiddleware and useRouteMiddleware
  */
 export type AssertRouteOptions = {
   // Called when an assertion fails inside the route; can log/telemetry
   onError?: (err: AssertError) => void;
   // Optional guard to only catch AssertError; default true
   catchNonAssertErrors?: boolean; // default false: rethrow non-AssertError
+  // Async routes: resolve to the fallback (code ROUTE_TIMEOUT) when a call takes longer than this
+  timeoutMs?: number;
+  // Async routes: resolve to the fallback (code ROUTE_ABORTED) when this signal aborts
+  signal?: AbortSignal;
+  // Async routes: retry failed attempts (each attempt's error goes to onError) before falling back
+  retry?: RouteRetryPolicy;
+  // Hooks for this route only, run inside the globally registered ones (see RouteMiddleware)
+  middleware?: readonly RouteMiddleware[];
 };
 
 /**
- * Execute a function in an assertion route. Any AssertError thrown inside is caught
- * and the provided fallback value is returned. Non-AssertError exceptions are rethrown
- * by default (set catchNonAssertErrors=true to also catch them).
+ * Retry policy for async routes. Every failed attempt is reported to onError; when the attempts
+ * are exhausted (or a failure is not retryable) the last attempt's error is the one handed to the
+ * fallback factory / error result. `timeoutMs` applies to each attempt separately.
  */
+export type RouteRetryPolicy = {
+  /** Total number of attempts, including the first one (default 3). */
+  attempts?: number;
+  /** Delay growth between attempts (default 'exponential'). */
+  backoff?: 'fixed' | 'exponential';
+  /** Base delay in ms (default 100); exponential backoff doubles it after every attempt. */
+  delayMs?: number;
+  /** Upper bound for a single delay in ms. */
+  maxDelayMs?: number;
+  /** When true, each delay is randomized between 50% and 100% of its computed value. */
+  jitter?: boolean;
+  /**
+   * Which failures are retried: a list of codes or a predicate. Default: every AssertError except
+   * ROUTE_ABORTED (an aborted route never retries). Non-AssertErrors are only retried when
+   * catchNonAssertErrors=true, as code UNEXPECTED_ERROR.
+   */
+  retryOn?: readonly AssertErrorCode[] | ((err: AssertError, attempt: number) => boolean);
+};
+
 /**
- * Execute a function within an "assertion route"; any AssertError thrown inside is caught
- * and the fallback value is returned. Overload behavior:
- * - If `fn.length === 0` (no parameters), executes immediately and returns T.
- * - Otherwise, returns a wrapper function (...args) => T that applies the same routing.
+ * Route options that make an async route abortable (a timeout, a signal, or both).
+ * With these options the inner function receives the call's AbortSignal as one extra argument
+ * after the arguments the route was called with, so it can stop its own work:
  *
- * Narrowing:
- * - Inside fn, your assert* calls act normally (throwing AssertError), enabling narrowing in code that executes after successful assertions.
- * - Failures are translated to `fallback` for this route.
+ * @example
+ * const load = fnAsync(null, async (id: string, signal: AbortSignal) => {
+ *   const r = await fetch(`/users/${id}`, { signal });
+ *   return await r.json();
+ * }, { timeoutMs: 2000 });
+ * await load('42'); // null after 2s
+ */
+export type AbortableRouteOptions = AssertRouteOptions & ({ timeoutMs: number } | { signal: AbortSignal });
+
+/**
+ * Fallback for a route: either a plain value, or a factory called on every failed call with the
+ * AssertError and the arguments the route was called with (an empty tuple for immediate runs).
+ * Factories give each call a fresh value (no shared mutable defaults) and allow per-call payloads.
  *
- * @param fallback Value returned when an AssertError is thrown within the route
- * @param fn Function to execute (sync)
- * @param options Control catching/logging behavior
+ * Note: any function passed as fallback is treated as a factory. To fall back to a function
+ * value itself, return it from a factory: `() => myHandler`.
+ */
+export type RouteFallback<T, A extends any[] = any[]> = T | ((err: AssertError, args: A) => T);
+
+/** Fallback for async routes; factories may also return a Promise. */
+export type AsyncRouteFallback<T, A extends any[] = any[]> = T | ((err: AssertError, args: A) => T | Promise<T>);
+
+/** Produce the fallback value for a failed call: call factories, return plain values as-is. */
+function resolveFallback<R, A extends any[]>(fallback: R | ((err: AssertError, args: A) => R), err: AssertError, args: A): R {
+  return typeof fallback === 'function' ? (fallback as (err: AssertError, args: A) => R)(err, args) : fallback;
+}
+
+// ===============
+// Route engine: one try/catch pipeline with middleware, shared by every route helper
+// ===============
+
+/**
+ * Middleware hooks run by every route (assertRoute, runRoute, assertRouteFn, routeWith, the async
+ * variants, routeResult/routeResultAsync and assertOnFail). Register them globally with
+ * `useRouteMiddleware` or per route via `options.middleware`; global ones wrap per-route ones.
+ *
+ * Order is onion-like: `before` runs in registration order, all other hooks in reverse order.
+ * Hooks are synchronous, also for async routes.
+ * - before(args): may return replacement arguments; fn and later hooks receive them (fallback factories keep the originals)
+ * - after(result, args): may return a replacement result; throwing an AssertError here (post-validation) routes to the fallback
+ * - onAssertError(err, args): every AssertError the route settles with (also each failed retry attempt), before onError
+ * - onOtherError(err, args): every non-AssertError thrown, before it is rethrown or converted (catchNonAssertErrors)
+ * - finally(args): once per call, whatever the outcome
+ *
+ * Returning `undefined` from before/after keeps the current arguments/result.
+ *
+ * @example
+ * useRouteMiddleware({
+ *   before: (args) => args.map((a) => (typeof a === 'string' ? a.trim() : a)), // fn receives the trimmed args
+ *   onAssertError: (err, args) => {
+ *     metrics.increment(`assert.${err.code}`);
+ *     // redact only the logged copy; before would hand the redacted value to fn
+ *     logger.warn({ code: err.code, args: args.map((a) => (isObject(a) && 'password' in a ? { ...a, password: '***' } : a)) });
+ *   },
+ * });
+ */
+export type RouteMiddleware = {
+  before?: (args: readonly unknown[]) => unknown[] | void;
+  after?: (result: unknown, args: readonly unknown[]) => unknown;
+  onAssertError?: (err: AssertError, args: readonly unknown[]) => void;
+  onOtherError?: (err: unknown, args: readonly unknown[]) => void;
+  finally?: (args: readonly unknown[]) => void;
+};
+
+let __routeMiddleware: readonly RouteMiddleware[] = [];
+
+/**
+ * Register middleware for every route in the process. Returns a function that unregisters it.
+ *
+ * @example
+ * const stop = useRouteMiddleware({ onAssertError: (e) => logger.warn(e.toJSON()) });
+ * // ...
+ * stop();
  */
-export function assertRoute<T>(fallback: T, fn: () => T, options?: AssertRouteOptions): T;
-export function assertRoute<T, A extends any[]>(fallback: T, fn: (...args: A) => T, options?: AssertRouteOptions): (...args: A) => T;
-export function assertRoute<T, A extends any[]>(fallback: T, fn: (...args: A) => T, options: AssertRouteOptions = {}): T | ((...args: A) => T) {
-  const { onError, catchNonAssertErrors = false } = options;
+export function useRouteMiddleware(middleware: RouteMiddleware): () => void {
+  __routeMiddleware = [...__routeMiddleware, middleware];
+  return () => {
+    __routeMiddleware = __routeMiddleware.filter((m) => m !== middleware);
+  };
+}
 
-  // If the function has no parameters (length === 0), execute it immediately
-  if (!fn) {
-    return fallback;
+/** State of a single routed call: its (possibly replaced) arguments and the middleware it runs. */
+class RouteCall<A extends any[]> {
+  private readonly middleware: readonly RouteMiddleware[];
+  private readonly reversed: readonly RouteMiddleware[];
+
+  constructor(
+    public args: A,
+    private readonly options: AssertRouteOptions
+  ) {
+    this.middleware = options.middleware?.length ? [...__routeMiddleware, ...options.middleware] : __routeMiddleware;
+    this.reversed = [...this.middleware].reverse();
   }
 
-  // If the function has parameters, return a wrapped function
-  return ((...args: A) => {
-    try {
-      return fn(...args);
-    } catch (e) {
-      if (e instanceof AssertError) {
-        onError?.(e);
-        return fallback;
-      }
-      if (catchNonAssertErrors) {
-        const err = e instanceof Error ? e : new Error(String(e));
-        onError?.(new AssertError(err.message, { cause: err } as any));
-        return fallback;
-      }
-      throw e; // rethrow non-assert errors by default
+  before(): void {
+    for (const m of this.middleware) {
+      const next = m.before?.(this.args);
+      if (next !== undefined) this.args = next as A;
     }
-  }) as (...args: A) => T;
+  }
+
+  after<T>(result: T): T {
+    for (const m of this.reversed) {
+      const next = m.after?.(result, this.args);
+      if (next !== undefined) result = next as T;
+    }
+    return result;
+  }
+
+  /** Turn a thrown value into the error result (reporting it), or rethrow it when it is not caught. */
+  settle<T>(e: unknown): RouteResult<T> {
+    let err: AssertError;
+    if (e instanceof AssertError) {
+      err = e;
+    } else {
+      for (const m of this.reversed) m.onOtherError?.(e, this.args);
+      if (!this.options.catchNonAssertErrors) throw e;
+      err = wrapNonAssertError(e);
+    }
+    for (const m of this.reversed) m.onAssertError?.(err, this.args);
+    this.options.onError?.(err);
+    return routeErr<T>(err);
+  }
+
+  finish(): void {
+    for (const m of this.reversed) m.finally?.(this.args);
+  }
+}
+
+/** Sync engine: run fn(...args) through the middleware; failures become an error result. */
+function executeRoute<T, A extends any[]>(fn: (...args: A) => T, args: A, options: AssertRouteOptions): RouteResult<T> {
+  const call = new RouteCall(args, options);
+  try {
+    return throwingAssertions(() => {
+      call.before();
+      return routeOk(call.after(fn(...call.args)));
+    });
+  } catch (e) {
+    return call.settle<T>(e);
+  } finally {
+    call.finish();
+  }
 }
 
 /**
- * assertRouteFn: Always returns a wrapped function that converts AssertError into a fallback,
- * regardless of the target function's arity. Use this to avoid the extra `()` call for zero-arg fns.
+ * Async engine: like executeRoute, with timeoutMs/signal applied per attempt (fn then receives the
+ * AbortSignal as an extra last argument) and the retry policy applied around each attempt.
  */
-export function assertRouteFn<T, A extends any[]>(fallback: T, fn: (...args: A) => T, options: AssertRouteOptions = {}): (...args: A) => T {
-  const { onError, catchNonAssertErrors = false } = options;
-  return ((...args: A) => {
+async function executeRouteAsync<T, A extends any[]>(fn: (...args: any[]) => Promise<T>, args: A, options: AssertRouteOptions): Promise<RouteResult<T>> {
+  const { timeoutMs, signal, retry } = options;
+  const attempts = retry ? Math.max(1, retry.attempts ?? 3) : 1;
+  const call = new RouteCall(args, options);
+  try {
     try {
-      return fn(...args);
+      throwingAssertions(() => call.before());
     } catch (e) {
-      if (e instanceof AssertError) {
-        onError?.(e);
-        return fallback;
+      return call.settle<T>(e);
+    }
+    for (let n = 1; ; n++) {
+      let result: RouteResult<T>;
+      try {
+        const value = await withRouteDeadline((routeSignal) => throwingAssertions(() => (routeSignal ? fn(...call.args, routeSignal) : fn(...call.args))), timeoutMs, signal);
+        result = routeOk(throwingAssertions(() => call.after(value)));
+      } catch (e) {
+        result = call.settle<T>(e);
       }
-      if (catchNonAssertErrors) {
-        const err = e instanceof Error ? e : new Error(String(e));
-        onError?.(new AssertError(err.message, { cause: err } as any));
-        return fallback;
+      if (result.ok || !retry || n >= attempts || !isRetryable(retry, result.error, n)) return result;
+      try {
+        await retryWait(retryDelay(retry, n), signal);
+      } catch (e) {
+        return call.settle<T>(e);
       }
-      throw e;
     }
-  }) as (...args: A) => T;
+  } finally {
+    call.finish();
+  }
+}
+
+/**
+ * Execute a function within an "assertion route"; any AssertError thrown inside is caught
+ * and the fallback value is returned. Non-AssertError exceptions are rethrown by default
+ * (set catchNonAssertErrors=true to also catch them).
+ *
+ * Dispatch is based on the runtime arity of `fn` (`fn.length`):
+ * - `fn.length === 0` (no declared parameters): executes immediately and returns T.
+ * - otherwise: returns a wrapper function (...args) => T that applies the same routing.
+ *
+ * Functions whose parameters are all defaulted or rest parameters also report `length === 0`
+ * and therefore run immediately. When that matters, say what you mean with the explicit
+ * variants: `runRoute` always executes, `assertRouteFn` always wraps.
+ *
+ * Migration: earlier releases always returned a wrapper, so zero-parameter functions had to
+ * be called afterwards (`assertRoute(fb, () => x)()`). Such callers should switch to
+ * `assertRouteFn(fb, () => x)()` (or simply `runRoute(fb, () => x)`).
+ *
+ * Narrowing:
+ * - Inside fn, your assert* calls act normally (throwing AssertError), enabling narrowing in code that executes after successful assertions.
+ * - Failures are translated to `fallback` for this route.
+ *
+ * @param fallback Value returned when an AssertError is thrown within the route, or a factory `(err, args) => T`
+ * @param fn Function to execute (sync)
+ * @param options Control catching/logging behavior
+ */
+export function assertRoute<T>(fallback: RouteFallback<T, []>, fn: () => T, options?: AssertRouteOptions): T;
+export function assertRoute<T, A extends any[]>(fallback: RouteFallback<T, A>, fn: (...args: A) => T, options?: AssertRouteOptions): (...args: A) => T;
+export function assertRoute<T, A extends any[]>(fallback: RouteFallback<T, A>, fn: (...args: A) => T, options: AssertRouteOptions = {}): T | ((...args: A) => T) {
+  const routed = assertRouteFn(fallback, fn, options);
+  return fn.length === 0 ? (routed as () => T)() : routed;
+}
+
+/**
+ * runRoute: Always executes `fn` immediately inside an assertion route and returns its result,
+ * or `fallback` when an AssertError is thrown. The explicit counterpart of assertRoute's
+ * zero-arity branch, independent of how `fn` declares its parameters.
+ *
+ * @example
+ * const len = runRoute(0, () => { assertString(input); return input.length; });
+ */
+export function runRoute<T>(fallback: RouteFallback<T, []>, fn: () => T, options: AssertRouteOptions = {}): T {
+  return assertRouteFn(fallback, fn, options)();
+}
+
+/**
+ * assertRouteFn: Always returns a wrapped function that converts AssertError into a fallback,
+ * regardless of the target function's arity: unlike assertRoute it never runs `fn` immediately.
+ */
+export function assertRouteFn<T, A extends any[]>(fallback: RouteFallback<T, A>, fn: (...args: A) => T, options: AssertRouteOptions = {}): (...args: A) => T {
+  return (...args: A) => {
+    const result = executeRoute(fn, args, options);
+    return result.ok ? result.value : resolveFallback(fallback, result.error, args);
+  };
 }
 
 /**
@@ -570,88 +1460,300 @@ export function assertRouteFn<T, A extends any[]>(fallback: T, fn: (...args: A)
  * @example
  * const safe = routeWith(0);
  * const parseLen = safe((s?: string) => { assertString(s); return s.length; });
+ *
+ * const safeList = routeWith<string[]>(() => []); // fresh array per failed call
  */
-export function routeWith<T>(fallback: T, options?: AssertRouteOptions) {
-  return <A extends any[]>(fn: (...args: A) => T) => assertRoute(fallback, fn, options);
+export function routeWith<T>(fallback: RouteFallback<T>, options?: AssertRouteOptions) {
+  return <A extends any[]>(fn: (...args: A) => T) => assertRouteFn(fallback, fn, options);
 }
 
 // ===============
 // Async variant: assertRouteAsync
 // ===============
 
+/** The AssertError a route settles with when its outer signal aborts. */
+function routeAbortedError(signal: AbortSignal): AssertError {
+  const failure: AssertFailure = { code: 'ROUTE_ABORTED' };
+  return new AssertError(renderMessage(defaultMessage(failure.code), failure), { reason: signal.reason }, failure);
+}
+
 /**
- * Async variant of assertRoute.
- * - If `fn.length === 0`, executes immediately and returns Promise<T>.
- * - Otherwise, returns an async wrapper (...args) => Promise<T>.
- *
- * @param fallback Value returned when an AssertError (or optionally other errors) is thrown
- * @param fn Async function to execute
- * @param options Control catching/logging behavior
+ * Run `run` with a fresh AbortSignal, rejecting with an AssertError (code ROUTE_TIMEOUT or
+ * ROUTE_ABORTED) as soon as `timeoutMs` elapses or `outer` aborts; the inner signal is aborted
+ * at the same moment so the work can stop. Without a timeout or outer signal, `run` is simply awaited.
  */
-export function assertRouteAsync<T>(fallback: T, fn: () => Promise<T>, options?: AssertRouteOptions): Promise<T>;
-export function assertRouteAsync<T, A extends any[]>(fallback: T, fn: (...args: A) => Promise<T>, options?: AssertRouteOptions): (...args: A) => Promise<T>;
-export function assertRouteAsync<T, A extends any[]>(fallback: T, fn: (...args: A) => Promise<T>, options: AssertRouteOptions = {}): Promise<T> | ((...args: A) => Promise<T>) {
-  const { onError, catchNonAssertErrors = false } = options;
-
-  if (fn.length === 0) {
-    return (async () => {
-      try {
-        return await (fn as () => Promise<T>)();
-      } catch (e) {
-        if (e instanceof AssertError) {
-          onError?.(e);
-          return fallback;
-        }
-        if (catchNonAssertErrors) {
-          const err = e instanceof Error ? e : new Error(String(e));
-          onError?.(new AssertError(err.message, { cause: err } as any));
-          return fallback;
+function withRouteDeadline<T>(run: (signal?: AbortSignal) => Promise<T>, timeoutMs: number | undefined, outer: AbortSignal | undefined): Promise<T> {
+  if (timeoutMs === undefined && !outer) return run();
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const cleanup = () => {
+      if (timer !== undefined) clearTimeout(timer);
+      outer?.removeEventListener('abort', onOuterAbort);
+    };
+    const abort = (err: AssertError) => {
+      cleanup();
+      controller.abort(err);
+      reject(err);
+    };
+    function onOuterAbort() {
+      abort(routeAbortedError(outer!));
+    }
+    if (outer?.aborted) return onOuterAbort();
+    outer?.addEventListener('abort', onOuterAbort, { once: true });
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => {
+        const failure: AssertFailure = { code: 'ROUTE_TIMEOUT', expected: { timeoutMs } };
+        abort(new AssertError(renderMessage(defaultMessage(failure.code), failure), undefined, failure));
+      }, timeoutMs);
+    }
+    Promise.resolve()
+      .then(() => run(controller.signal))
+      .then(
+        (value) => {
+          cleanup();
+          resolve(value);
+        },
+        (e) => {
+          cleanup();
+          reject(e);
         }
-        throw e;
-      }
-    })();
-  }
+      );
+  });
+}
 
-  return (async (...args: A) => {
-    try {
-      return await fn(...args);
-    } catch (e) {
-      if (e instanceof AssertError) {
-        onError?.(e);
-        return fallback;
-      }
-      if (catchNonAssertErrors) {
-        const err = e instanceof Error ? e : new Error(String(e));
-        onError?.(new AssertError(err.message, { cause: err } as any));
-        return fallback;
-      }
-      throw e;
-    }
-  }) as (...args: A) => Promise<T>;
+/** Wait `ms` between retry attempts; rejects with ROUTE_ABORTED as soon as `signal` aborts. */
+function retryWait(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(routeAbortedError(signal));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(routeAbortedError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** Delay before the attempt following `attempt` (1-based) under the given policy. */
+function retryDelay(policy: RouteRetryPolicy, attempt: number): number {
+  const base = policy.delayMs ?? 100;
+  let delay = policy.backoff === 'fixed' ? base : base * 2 ** (attempt - 1);
+  if (policy.maxDelayMs !== undefined) delay = Math.min(delay, policy.maxDelayMs);
+  return policy.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/** Whether the policy allows retrying after `err` failed attempt number `attempt`. */
+function isRetryable(policy: RouteRetryPolicy, err: AssertError, attempt: number): boolean {
+  if (err.code === 'ROUTE_ABORTED') return false;
+  const { retryOn } = policy;
+  if (retryOn === undefined) return true;
+  return typeof retryOn === 'function' ? retryOn(err, attempt) : retryOn.includes(err.code);
+}
+
+/**
+ * Async variant of assertRoute, with the same arity-based dispatch:
+ * - If `fn.length === 0`, executes immediately and returns Promise<T>.
+ * - Otherwise, returns an async wrapper (...args) => Promise<T>.
+ *
+ * Prefer the explicit `runRouteAsync` (always executes) or `fnAsync` (always wraps) when
+ * `fn` uses default or rest parameters, or when an immediate run needs the AbortSignal.
+ *
+ * @param fallback Value returned when an AssertError (or optionally other errors) is thrown, or a (possibly async) factory `(err, args) => T`
+ * @param fn Async function to execute
+ * @param options Control catching/logging behavior, plus timeoutMs/signal (see AbortableRouteOptions)
+ */
+export function assertRouteAsync<T>(fallback: AsyncRouteFallback<T, []>, fn: () => Promise<T>, options?: AssertRouteOptions): Promise<T>;
+export function assertRouteAsync<T, A extends any[]>(fallback: AsyncRouteFallback<T, A>, fn: (...args: [...A, AbortSignal]) => Promise<T>, options: AbortableRouteOptions): (...args: A) => Promise<T>;
+export function assertRouteAsync<T, A extends any[]>(fallback: AsyncRouteFallback<T, A>, fn: (...args: A) => Promise<T>, options?: AssertRouteOptions): (...args: A) => Promise<T>;
+export function assertRouteAsync<T, A extends any[]>(fallback: AsyncRouteFallback<T, A>, fn: (...args: A) => Promise<T>, options: AssertRouteOptions = {}): Promise<T> | ((...args: A) => Promise<T>) {
+  const routed = fnAsync(fallback, fn, options);
+  return fn.length === 0 ? (routed as () => Promise<T>)() : routed;
+}
+
+/**
+ * runRouteAsync: Always executes the async `fn` immediately inside an assertion route.
+ * Mirrors `runRoute` for async functions. With timeoutMs/signal, fn receives the AbortSignal.
+ *
+ * @example
+ * const user = await runRouteAsync(null, (signal) => fetchUser(id, { signal }), { timeoutMs: 500 });
+ */
+export function runRouteAsync<T>(fallback: AsyncRouteFallback<T, []>, fn: (signal: AbortSignal) => Promise<T>, options: AbortableRouteOptions): Promise<T>;
+export function runRouteAsync<T>(fallback: AsyncRouteFallback<T, []>, fn: () => Promise<T>, options?: AssertRouteOptions): Promise<T>;
+export function runRouteAsync<T>(fallback: AsyncRouteFallback<T, []>, fn: (...args: any[]) => Promise<T>, options: AssertRouteOptions = {}): Promise<T> {
+  return fnAsync<T, []>(fallback, fn, options)();
 }
 
 /**
  * fnAsync: Always returns an async wrapper function that converts AssertError into a fallback,
  * regardless of the target function's arity. Mirrors `assertRouteFn` for async functions.
+ *
+ * With timeoutMs and/or signal, each call is bounded: on timeout/abort the wrapper resolves to
+ * the fallback (onError receives an AssertError with code ROUTE_TIMEOUT/ROUTE_ABORTED), and fn
+ * receives the call's AbortSignal as an extra last argument.
+ *
+ * With `retry`, failed attempts are retried per the RouteRetryPolicy before falling back.
+ *
+ * @example
+ * const getStatus = fnAsync('unknown', async (host: string) => {
+ *   const body = await (await fetch(`http://${host}/status`)).json();
+ *   assertOneOfPrimitive(body.status, ['up', 'down']);
+ *   return body.status;
+ * }, { retry: { attempts: 4, delayMs: 50, jitter: true }, onError: (e) => log.warn(e.code) });
  */
-export function fnAsync<T, A extends any[]>(fallback: T, fn: (...args: A) => Promise<T>, options: AssertRouteOptions = {}): (...args: A) => Promise<T> {
-  const { onError, catchNonAssertErrors = false } = options;
-  return (async (...args: A) => {
-    try {
-      return await fn(...args);
-    } catch (e) {
-      if (e instanceof AssertError) {
-        onError?.(e);
-        return fallback;
-      }
-      if (catchNonAssertErrors) {
-        const err = e instanceof Error ? e : new Error(String(e));
-        onError?.(new AssertError(err.message, { cause: err } as any));
-        return fallback;
-      }
-      throw e;
-    }
-  }) as (...args: A) => Promise<T>;
+export function fnAsync<T>(fallback: AsyncRouteFallback<T, []>, fn: () => Promise<T>, options?: AssertRouteOptions): () => Promise<T>;
+export function fnAsync<T, A extends any[]>(fallback: AsyncRouteFallback<T, A>, fn: (...args: [...A, AbortSignal]) => Promise<T>, options: AbortableRouteOptions): (...args: A) => Promise<T>;
+export function fnAsync<T, A extends any[]>(fallback: AsyncRouteFallback<T, A>, fn: (...args: A) => Promise<T>, options?: AssertRouteOptions): (...args: A) => Promise<T>;
+export function fnAsync<T, A extends any[]>(fallback: AsyncRouteFallback<T, A>, fn: (...args: A) => Promise<T>, options: AssertRouteOptions = {}): (...args: A) => Promise<T> {
+  return async (...args: A) => {
+    const result = await executeRouteAsync(fn, args, options);
+    return result.ok ? result.value : await resolveFallback(fallback, result.error, args);
+  };
+}
+
+// ===============
+// Result-returning routes: routeResult / routeResultAsync
+// ===============
+
+/** Helpers available on every RouteResult, regardless of its branch. */
+export interface RouteResultMethods<T> {
+  /** Transform the value of an ok result; an AssertError thrown by fn turns it into an error result. */
+  map<U>(fn: (value: T) => U): RouteResult<U>;
+  /** Transform the error of a failed result (e.g. to add context); ok results pass through. */
+  mapErr(fn: (error: AssertError) => AssertError): RouteResult<T>;
+  /** Return the value of an ok result, or `fallback` for a failed one. */
+  unwrapOr<U = T>(fallback: U): T | U;
+  /** Chain another result-returning step; an AssertError thrown by fn becomes an error result. */
+  andThen<U>(fn: (value: T) => RouteResult<U>): RouteResult<U>;
+}
+
+/**
+ * Discriminated outcome of a result route: `{ ok: true, value }` when the route completed,
+ * `{ ok: false, error }` when an assertion failed. Narrow on `ok` before reading value/error.
+ */
+export type RouteResult<T> = (RouteResultMethods<T> & { readonly ok: true; readonly value: T }) | (RouteResultMethods<T> & { readonly ok: false; readonly error: AssertError });
+
+/** Run fn and convert a thrown AssertError into an error result; other errors propagate. */
+function captureResult<U>(fn: () => RouteResult<U>): RouteResult<U> {
+  try {
+    return throwingAssertions(fn);
+  } catch (e) {
+    if (e instanceof AssertError) return routeErr<U>(e);
+    throw e;
+  }
+}
+
+/** Create a successful RouteResult holding `value`. */
+export function routeOk<T>(value: T): RouteResult<T> {
+  return {
+    ok: true,
+    value,
+    map: (fn) => captureResult(() => routeOk(fn(value))),
+    mapErr: () => routeOk(value),
+    unwrapOr: () => value,
+    andThen: (fn) => captureResult(() => fn(value)),
+  };
+}
+
+/** Create a failed RouteResult holding `error`. */
+export function routeErr<T = never>(error: AssertError): RouteResult<T> {
+  return {
+    ok: false,
+    error,
+    map: <U>() => routeErr<U>(error),
+    mapErr: (fn) => routeErr<T>(fn(error)),
+    unwrapOr: <U>(fallback: U) => fallback,
+    andThen: <U>() => routeErr<U>(error),
+  };
+}
+
+/**
+ * Execute `fn` immediately and report the outcome as a RouteResult instead of collapsing
+ * failures into a fallback, so "valid but empty" and "assertion failed" stay distinguishable.
+ * - AssertError: `{ ok: false, error }` (onError is invoked first)
+ * - Other errors: rethrown, unless catchNonAssertErrors=true (then converted to an error result)
+ *
+ * @example
+ * const r = routeResult(() => { assertArray(input); return input; });
+ * if (r.ok) render(r.value); else log(r.error.code);
+ * const count = r.map((list) => list.length).unwrapOr(0);
+ */
+export function routeResult<T>(fn: () => T, options: AssertRouteOptions = {}): RouteResult<T> {
+  return executeRoute(fn, [], options);
+}
+
+/**
+ * Async variant of routeResult: awaits `fn` and resolves to a RouteResult.
+ * With timeoutMs/signal, fn receives the AbortSignal and a timeout/abort yields an error result.
+ */
+export function routeResultAsync<T>(fn: (signal: AbortSignal) => Promise<T>, options: AbortableRouteOptions): Promise<RouteResult<T>>;
+export function routeResultAsync<T>(fn: () => Promise<T>, options?: AssertRouteOptions): Promise<RouteResult<T>>;
+export function routeResultAsync<T>(fn: (...args: any[]) => Promise<T>, options: AssertRouteOptions = {}): Promise<RouteResult<T>> {
+  return executeRouteAsync(fn, [], options);
+}
+
+// ===============
+// Soft routes: collect every failure instead of stopping at the first
+// ===============
+
+/** Outcome of a soft route: its value (or the fallback) plus every AssertError recorded on the way. */
+export type SoftRouteResult<T> = { readonly ok: true; readonly value: T; readonly errors: readonly [] } | { readonly ok: false; readonly value: T; readonly errors: readonly AssertError[] };
+
+/** Run fn with `errors` as the active collector; throws the first recorded failure once fn is done. */
+function collectAssertions<T>(errors: AssertError[], fn: () => T): T {
+  __assertCollectors.push(errors);
+  try {
+    const value = fn();
+    if (errors.length) throw errors[0];
+    return value;
+  } catch (e) {
+    // anything thrown after a recorded failure (e.g. a TypeError on an unchecked value) is a consequence of it
+    if (errors.length && !(e instanceof AssertError)) throw errors[0];
+    if (e instanceof AssertError && !errors.includes(e)) errors.push(e);
+    throw e;
+  } finally {
+    __assertCollectors.pop();
+  }
+}
+
+/**
+ * Execute `fn` immediately in soft mode: every failing assert* records its AssertError and lets
+ * the route continue, so one run reports all problems (like confirmAll, without a thunk per check).
+ * When anything failed, the result carries the fallback and all errors in order.
+ *
+ * Soft assertions do not stop execution, so values are not actually narrowed after a failure:
+ * call `checkpoint()` before code that relies on them. A non-AssertError thrown after a recorded
+ * failure ends the route as that failure. onError/middleware receive the first failure only.
+ * Nested routes, confirm(), report() and chains keep throwing/catching as usual.
+ *
+ * @example
+ * const { ok, value, errors } = assertRouteCollect(null, () => {
+ *   assertString(form.name, 'name is required');
+ *   assertNumberGreaterOrEqual(form.age, 18, 'must be an adult');
+ *   assertStringMatches(form.email, /@/, 'invalid email');
+ *   checkpoint();
+ *   return { name: form.name, age: form.age, email: form.email };
+ * });
+ * if (!ok) showErrors(errors.map((e) => e.message));
+ */
+export function assertRouteCollect<T>(fallback: RouteFallback<T, []>, fn: () => T, options: AssertRouteOptions = {}): SoftRouteResult<T> {
+  const errors: AssertError[] = [];
+  const result = executeRoute(() => collectAssertions(errors, fn), [], options);
+  if (result.ok) return { ok: true, value: result.value, errors: [] };
+  if (!errors.includes(result.error)) errors.push(result.error);
+  return { ok: false, value: resolveFallback(fallback, errors[0], []), errors };
+}
+
+/**
+ * Inside a soft route: stop here when any assertion has failed so far, so the code below can
+ * rely on the checked values. Does nothing outside soft routes.
+ */
+export function checkpoint(): void {
+  const collector = __assertCollectors[__assertCollectors.length - 1];
+  if (collector?.length) throw collector[0];
 }
 
 // ===============
@@ -664,9 +1766,9 @@ export function fnAsync<T, A extends any[]>(fallback: T, fn: (...args: A) => Pro
  * Narrowing:
  * - On success, narrows x to string.
  */
-export function assertNonEmptyString(x: unknown, message = 'Expected non-empty string'): asserts x is string {
-  assertString(x, message);
-  assert((x as string).length > 0, message);
+export function assertNonEmptyString(x: unknown, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertNonEmptyString', 'string', x, message);
+  if (x.length === 0) return fail({ code: 'STRING_EMPTY', assertion: 'assertNonEmptyString', expected: 'non-empty string', actual: x }, message);
 }
 
 /**
@@ -675,29 +1777,33 @@ export function assertNonEmptyString(x: unknown, message = 'Expected non-empty s
  * Narrowing:
  * - On success, narrows x to T[].
  */
-export function assertArrayNotEmpty<T = unknown>(x: unknown, message = 'Expected non-empty array'): asserts x is T[] {
-  assertArray<T>(x, message);
-  assert((x as T[]).length > 0, message);
+export function assertArrayNotEmpty<T = unknown>(x: unknown, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayNotEmpty', 'array', x, message);
+  if (x.length === 0) return fail({ code: 'ARRAY_EMPTY', assertion: 'assertArrayNotEmpty', expected: 'non-empty array', actual: x }, message);
 }
 
 /** Asserts that x is a string and non-empty (length > 0). */
-export function assertNonEmptyStringStrict(x: unknown, message = 'Expected non-empty string'): asserts x is string {
-  assert(isNonEmptyString(x), message);
+export function assertNonEmptyStringStrict(x: unknown, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertNonEmptyStringStrict', 'string', x, message);
+  if (x.length === 0) return fail({ code: 'STRING_EMPTY', assertion: 'assertNonEmptyStringStrict', expected: 'non-empty string', actual: x }, message);
 }
 
 /** Asserts that x is an array and non-empty (length > 0). */
-export function assertNonEmptyArray<T = unknown>(x: unknown, message = 'Expected non-empty array'): asserts x is T[] {
-  assert(isNonEmptyArray<T>(x), message);
+export function assertNonEmptyArray<T = unknown>(x: unknown, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertNonEmptyArray', 'array', x, message);
+  if (x.length === 0) return fail({ code: 'ARRAY_EMPTY', assertion: 'assertNonEmptyArray', expected: 'non-empty array', actual: x }, message);
 }
 
 /** Asserts that x is a plain object with at least one key. */
-export function assertNonEmptyRecordStrict(x: unknown, message = 'Expected non-empty object'): asserts x is Record<string, unknown> {
-  assert(isNonEmptyRecord(x), message);
+export function assertNonEmptyRecordStrict(x: unknown, message?: AssertMessage): asserts x is Record<string, unknown> {
+  if (!isObject(x)) return failType('assertNonEmptyRecordStrict', 'object', x, message);
+  if (Object.keys(x).length === 0) return fail({ code: 'OBJECT_EMPTY', assertion: 'assertNonEmptyRecordStrict', expected: 'non-empty object', actual: x }, message);
 }
 
 /** Asserts that x is a finite number not equal to zero. */
-export function assertNonZeroNumber(x: unknown, message = 'Expected non-zero number'): asserts x is number {
-  assert(isNonZeroNumber(x), message);
+export function assertNonZeroNumber(x: unknown, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNonZeroNumber', 'number', x, message);
+  if (x === 0) return fail({ code: 'NUMBER_ZERO', assertion: 'assertNonZeroNumber', expected: 'non-zero number', actual: x }, message);
 }
 
 // Unified "non-empty" runtime checks + type guards
@@ -706,22 +1812,24 @@ export function assertNonZeroNumber(x: unknown, message = 'Expected non-zero num
 // - Objects: has at least one own key
 // - Numbers: finite and !== 0
 export function isNonEmptyString(x: unknown): x is string {
-  assertString(x);
-  assert((x as string).length > 0);
+  throwingAssertions(() => {
+    assertString(x);
+    assert((x as string).length > 0);
+  });
   return true;
 }
 
 export function isNonEmptyArray<T = unknown>(x: unknown): x is T[] {
   return Array.isArray(x) && (x as Array<T>).length > 0;
 }
-export function objectHasNoTruthyValues(x: unknown, message = 'Expected object', info?: Record<string, unknown>): boolean {
+export function objectHasNoTruthyValues(x: unknown, message?: AssertMessage, info?: Record<string, unknown>): boolean {
   if (!(typeof x === 'object' && x !== null && !Array.isArray(x))) {
     return false;
   }
   return Object.values(x as Record<string, unknown>).every((val) => !val);
 }
 
-export function objectHasNoFalseyValues(x: unknown, message = 'Expected object', info?: Record<string, unknown>): boolean {
+export function objectHasNoFalseyValues(x: unknown, message?: AssertMessage, info?: Record<string, unknown>): boolean {
   if (!(typeof x === 'object' && x !== null && !Array.isArray(x))) {
     return false;
   }
@@ -752,10 +1860,10 @@ export type { AssertError as AssertionError };
  * assertString(name);
  * // name is string here
  *
- * const result = assertRoute(() => {
+ * const result = runRoute(0, () => {
  *   assertArrayNotEmpty(input, "input required");
  *   return input.length;
- * }, 0);
+ * });
  */
 
 // ===============
@@ -765,333 +1873,339 @@ export type { AssertError as AssertionError };
 // ---- Strings ----
 
 /** Asserts that x is a string with exact length `len`. */
-export function assertStringLength(x: unknown, len: number, message?: string): asserts x is string {
-  assertString(x, message ?? `Expected string length ${len}`);
-  assert((x as string).length === len, message ?? `Expected string length ${len}`);
+export function assertStringLength(x: unknown, len: number, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertStringLength', 'string', x, message);
+  if (x.length !== len) return fail({ code: 'STRING_LENGTH_MISMATCH', assertion: 'assertStringLength', expected: len, actual: x.length }, message);
 }
 
 /** Asserts that x is a string with length >= `n`. */
-export function assertStringLengthAtLeast(x: unknown, n: number, message?: string): asserts x is string {
-  assertString(x, message ?? `Expected string length >= ${n}`);
-  assert((x as string).length >= n, message ?? `Expected string length >= ${n}`);
+export function assertStringLengthAtLeast(x: unknown, n: number, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertStringLengthAtLeast', 'string', x, message);
+  if (x.length < n) return fail({ code: 'STRING_TOO_SHORT', assertion: 'assertStringLengthAtLeast', expected: n, actual: x.length }, message);
 }
 
 /** Asserts that x is a string with length <= `n`. */
-export function assertStringLengthAtMost(x: unknown, n: number, message?: string): asserts x is string {
-  assertString(x, message ?? `Expected string length <= ${n}`);
-  assert((x as string).length <= n, message ?? `Expected string length <= ${n}`);
+export function assertStringLengthAtMost(x: unknown, n: number, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertStringLengthAtMost', 'string', x, message);
+  if (x.length > n) return fail({ code: 'STRING_TOO_LONG', assertion: 'assertStringLengthAtMost', expected: n, actual: x.length }, message);
 }
 
 /** Asserts that x is a string with min/max inclusive bounds. */
-export function assertStringLengthBetween(x: unknown, min: number, max: number, message?: string): asserts x is string {
-  assertString(x, message ?? `Expected string length between ${min} and ${max}`);
-  const l = (x as string).length;
-  assert(l >= min && l <= max, message ?? `Expected string length between ${min} and ${max}`);
+export function assertStringLengthBetween(x: unknown, min: number, max: number, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertStringLengthBetween', 'string', x, message);
+  const l = x.length;
+  if (l < min || l > max) {
+    return fail({ code: 'STRING_LENGTH_OUT_OF_RANGE', assertion: 'assertStringLengthBetween', expected: { min, max }, actual: l }, message);
+  }
 }
 
 /** Asserts that x is a string containing substring or matching regex. */
-export function assertStringContains(x: unknown, needle: string | RegExp, message?: string): asserts x is string {
-  assertString(x, message ?? `Expected string to contain ${String(needle)}`);
-  const s = x as string;
-  const ok = typeof needle === 'string' ? s.includes(needle) : needle.test(s);
-  assert(ok, message ?? `Expected string to contain ${String(needle)}`);
+export function assertStringContains(x: unknown, needle: string | RegExp, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertStringContains', 'string', x, message);
+  const ok = typeof needle === 'string' ? x.includes(needle) : needle.test(x);
+  if (!ok) return fail({ code: 'STRING_NOT_CONTAINS', assertion: 'assertStringContains', expected: String(needle), actual: x }, message);
 }
 
 /** Asserts that x is a string starting with the given prefix. */
-export function assertStringStartsWith(x: unknown, prefix: string, message?: string): asserts x is string {
-  assertString(x, message ?? `Expected string to start with "${prefix}"`);
-  assert((x as string).startsWith(prefix), message ?? `Expected string to start with "${prefix}"`);
+export function assertStringStartsWith(x: unknown, prefix: string, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertStringStartsWith', 'string', x, message);
+  if (!x.startsWith(prefix)) return fail({ code: 'STRING_NOT_STARTS_WITH', assertion: 'assertStringStartsWith', expected: prefix, actual: x }, message);
 }
 
 /** Asserts that x is a string ending with the given suffix. */
-export function assertStringEndsWith(x: unknown, suffix: string, message?: string): asserts x is string {
-  assertString(x, message ?? `Expected string to end with "${suffix}"`);
-  assert((x as string).endsWith(suffix), message ?? `Expected string to end with "${suffix}"`);
+export function assertStringEndsWith(x: unknown, suffix: string, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertStringEndsWith', 'string', x, message);
+  if (!x.endsWith(suffix)) return fail({ code: 'STRING_NOT_ENDS_WITH', assertion: 'assertStringEndsWith', expected: suffix, actual: x }, message);
 }
 
 /** Asserts that x is a string that matches the regex. */
-export function assertStringMatches(x: unknown, re: RegExp, message?: string): asserts x is string {
-  assertString(x, message ?? `Expected string to match ${re}`);
-  assert(re.test(x as string), message ?? `Expected string to match ${re}`);
+export function assertStringMatches(x: unknown, re: RegExp, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertStringMatches', 'string', x, message);
+  if (!re.test(x)) return fail({ code: 'STRING_PATTERN_MISMATCH', assertion: 'assertStringMatches', expected: String(re), actual: x }, message);
 }
 
 /** Asserts that x (string) equals `expected` ignoring case. */
-export function assertStringEqualsIgnoreCase(x: unknown, expected: string, message?: string): asserts x is string {
-  assertString(x, message ?? `Expected "${expected}" (case-insensitive)`);
-  assert((x as string).toLowerCase() === expected.toLowerCase(), message ?? `Expected "${expected}" (case-insensitive)`);
+export function assertStringEqualsIgnoreCase(x: unknown, expected: string, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertStringEqualsIgnoreCase', 'string', x, message);
+  if (x.toLowerCase() !== expected.toLowerCase()) {
+    return fail({ code: 'STRING_NOT_EQUAL', assertion: 'assertStringEqualsIgnoreCase', expected, actual: x }, message);
+  }
 }
 
 /** Asserts that x is a string including any of the provided substrings. */
 export function assertStringIncludesAny(x: unknown, ...needles: string[]): asserts x is string {
-  assertString(x, `Expected string`);
-  const s = x as string;
-  assert(
-    needles.some((n) => s.includes(n)),
-    `Expected string to include any of [${needles.join(', ')}]`
-  );
+  if (!isString(x)) return failType('assertStringIncludesAny', 'string', x);
+  const s = x;
+  if (!needles.some((n) => s.includes(n))) {
+    return fail({ code: 'STRING_MISSING_ANY', assertion: 'assertStringIncludesAny', expected: needles, actual: x });
+  }
 }
 
 /** Asserts that x is a string including all of the provided substrings. */
 export function assertStringIncludesAll(x: unknown, ...needles: string[]): asserts x is string {
-  assertString(x, `Expected string`);
-  const s = x as string;
-  assert(
-    needles.every((n) => s.includes(n)),
-    `Expected string to include all of [${needles.join(', ')}]`
-  );
+  if (!isString(x)) return failType('assertStringIncludesAll', 'string', x);
+  const s = x;
+  const missing = needles.filter((n) => !s.includes(n));
+  if (missing.length > 0) {
+    return fail({ code: 'STRING_MISSING_ALL', assertion: 'assertStringIncludesAll', expected: missing, actual: x });
+  }
 }
 
 /** Asserts that x is a string containing valid JSON. */
-export function assertStringIsJSON(x: unknown, message = 'Expected valid JSON'): asserts x is string {
-  assertString(x, message);
+export function assertStringIsJSON(x: unknown, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertStringIsJSON', 'string', x, message);
   try {
-    JSON.parse(x as string);
+    JSON.parse(x);
   } catch {
-    assert(false, message);
+    return fail({ code: 'STRING_NOT_JSON', assertion: 'assertStringIsJSON', expected: 'JSON', actual: x }, message);
   }
 }
 
 /** Asserts that x is a string whose trimmed length > 0. */
-export function assertStringTrimmedNotEmpty(x: unknown, message = 'Expected non-empty (trimmed)'): asserts x is string {
-  assertString(x, message);
-  assert((x as string).trim().length > 0, message);
+export function assertStringTrimmedNotEmpty(x: unknown, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertStringTrimmedNotEmpty', 'string', x, message);
+  if (x.trim().length === 0) return fail({ code: 'STRING_BLANK', assertion: 'assertStringTrimmedNotEmpty', expected: 'non-blank string', actual: x }, message);
 }
 
 // ---- Numbers ----
 
 /** Asserts that x is a number strictly greater than n. */
-export function assertNumberGreaterThan(x: unknown, n: number, message?: string): asserts x is number {
-  assertNumber(x, message ?? `Expected > ${n}`);
-  assert((x as number) > n, message ?? `Expected > ${n}`);
+export function assertNumberGreaterThan(x: unknown, n: number, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumberGreaterThan', 'number', x, message);
+  if (!(x > n)) return fail({ code: 'NUMBER_NOT_GREATER', assertion: 'assertNumberGreaterThan', expected: n, actual: x }, message);
 }
 
 /** Asserts that x is a number >= n. */
-export function assertNumberGreaterOrEqual(x: unknown, n: number, message?: string): asserts x is number {
-  assertNumber(x, message ?? `Expected >= ${n}`);
-  assert((x as number) >= n, message ?? `Expected >= ${n}`);
+export function assertNumberGreaterOrEqual(x: unknown, n: number, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumberGreaterOrEqual', 'number', x, message);
+  if (!(x >= n)) return fail({ code: 'NUMBER_NOT_GREATER_OR_EQUAL', assertion: 'assertNumberGreaterOrEqual', expected: n, actual: x }, message);
 }
 
 /** Asserts that x is a number strictly less than n. */
-export function assertNumberLessThan(x: unknown, n: number, message?: string): asserts x is number {
-  assertNumber(x, message ?? `Expected < ${n}`);
-  assert((x as number) < n, message ?? `Expected < ${n}`);
+export function assertNumberLessThan(x: unknown, n: number, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumberLessThan', 'number', x, message);
+  if (!(x < n)) return fail({ code: 'NUMBER_NOT_LESS', assertion: 'assertNumberLessThan', expected: n, actual: x }, message);
 }
 
 /** Asserts that x is a number <= n. */
-export function assertNumberLessOrEqual(x: unknown, n: number, message?: string): asserts x is number {
-  assertNumber(x, message ?? `Expected <= ${n}`);
-  assert((x as number) <= n, message ?? `Expected <= ${n}`);
+export function assertNumberLessOrEqual(x: unknown, n: number, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumberLessOrEqual', 'number', x, message);
+  if (!(x <= n)) return fail({ code: 'NUMBER_NOT_LESS_OR_EQUAL', assertion: 'assertNumberLessOrEqual', expected: n, actual: x }, message);
 }
 
 /** Asserts that x is a number within [min, max]. */
-export function assertNumberBetween(x: unknown, min: number, max: number, message?: string): asserts x is number {
-  assertNumber(x, message ?? `Expected between ${min} and ${max}`);
-  const v = x as number;
-  assert(v >= min && v <= max, message ?? `Expected between ${min} and ${max}`);
+export function assertNumberBetween(x: unknown, min: number, max: number, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumberBetween', 'number', x, message);
+  if (!(x >= min && x <= max)) return fail({ code: 'NUMBER_OUT_OF_RANGE', assertion: 'assertNumberBetween', expected: { min, max }, actual: x }, message);
 }
 
 // ---- Arrays ----
 
 /** Asserts that x is an array with exact length `len`. */
-export function assertArrayLength<T = unknown>(x: unknown, len: number, message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array length ${len}`);
-  assert((x as T[]).length === len, message ?? `Expected array length ${len}`);
+export function assertArrayLength<T = unknown>(x: unknown, len: number, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayLength', 'array', x, message);
+  if (x.length !== len) return fail({ code: 'ARRAY_LENGTH_MISMATCH', assertion: 'assertArrayLength', expected: len, actual: x.length }, message);
 }
 
 /** Asserts that x is an array containing at least one of the provided items (by string form). */
-export function assertArrayHasAnyOf<T = unknown>(x: unknown, items: string[], message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array`);
+export function assertArrayHasAnyOf<T = unknown>(x: unknown, items: string[], message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayHasAnyOf', 'array', x, message);
   const arr = x as any[];
   const set = new Set(items);
   const ok = arr.some((el) => set.has(String(el)) || set.has(el as any));
-  assert(ok, message ?? `Expected array to contain any of [${items.join(', ')}]`);
+  if (!ok) return fail({ code: 'ARRAY_MISSING_ANY', assertion: 'assertArrayHasAnyOf', expected: items, actual: x }, message);
 }
 
 /** Asserts that x is an array containing all the provided items (by string form). */
-export function assertArrayHasEveryOf<T = unknown>(x: unknown, items: string[], message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array`);
+export function assertArrayHasEveryOf<T = unknown>(x: unknown, items: string[], message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayHasEveryOf', 'array', x, message);
   const arr = x as any[];
   const set = new Set(arr.map((v) => (typeof v === 'string' ? v : String(v))));
   const missing = items.filter((k) => !set.has(k));
-  assert(missing.length === 0, message ?? `Missing required items: [${missing.join(', ')}]`);
+  if (missing.length > 0) return fail({ code: 'ARRAY_MISSING_ITEMS', assertion: 'assertArrayHasEveryOf', expected: missing, actual: x }, message);
 }
 
 /** Asserts that x is an array and element at index i is a boolean. */
-export function assertArrayItemIsBoolean<T = unknown>(x: unknown, i: number, message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array`);
-  assert(typeof (x as any[])[i] === 'boolean', message ?? `Expected boolean at ${i}`);
+export function assertArrayItemIsBoolean<T = unknown>(x: unknown, i: number, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayItemIsBoolean', 'array', x, message);
+  const item = (x as any[])[i];
+  if (typeof item !== 'boolean') return fail({ code: 'ARRAY_ITEM_TYPE', assertion: 'assertArrayItemIsBoolean', expected: 'boolean', actual: item, path: `[${i}]` }, message);
 }
 
 /** Asserts that x is an array and element at index i is a string. */
-export function assertArrayItemIsString<T = unknown>(x: unknown, i: number, message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array`);
-  assert(typeof (x as any[])[i] === 'string', message ?? `Expected string at ${i}`);
+export function assertArrayItemIsString<T = unknown>(x: unknown, i: number, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayItemIsString', 'array', x, message);
+  const item = (x as any[])[i];
+  if (typeof item !== 'string') return fail({ code: 'ARRAY_ITEM_TYPE', assertion: 'assertArrayItemIsString', expected: 'string', actual: item, path: `[${i}]` }, message);
 }
 
 /** Asserts that x is an array and element at index i is a number. */
-export function assertArrayItemIsNumber<T = unknown>(x: unknown, i: number, message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array`);
-  assert(typeof (x as any[])[i] === 'number', message ?? `Expected number at ${i}`);
+export function assertArrayItemIsNumber<T = unknown>(x: unknown, i: number, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayItemIsNumber', 'array', x, message);
+  const item = (x as any[])[i];
+  if (typeof item !== 'number') return fail({ code: 'ARRAY_ITEM_TYPE', assertion: 'assertArrayItemIsNumber', expected: 'number', actual: item, path: `[${i}]` }, message);
 }
 
 /** Asserts that x is an array and element at index i is a plain object. */
-export function assertArrayItemIsObject<T = unknown>(x: unknown, i: number, message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array`);
-  const v = (x as any[])[i];
-  assert(typeof v === 'object' && v !== null && !Array.isArray(v), message ?? `Expected object at ${i}`);
+export function assertArrayItemIsObject<T = unknown>(x: unknown, i: number, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayItemIsObject', 'array', x, message);
+  const item = (x as any[])[i];
+  if (!isObject(item)) return fail({ code: 'ARRAY_ITEM_TYPE', assertion: 'assertArrayItemIsObject', expected: 'object', actual: item, path: `[${i}]` }, message);
 }
 
 /** Asserts that x is an array with at least one item whose string form includes `needle`. */
-export function assertArrayIncludesString<T = unknown>(x: unknown, needle: string, message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array`);
-  assert(
-    (x as any[]).some((item) => String(item).includes(needle)),
-    message ?? `Expected array to include string containing "${needle}"`
-  );
+export function assertArrayIncludesString<T = unknown>(x: unknown, needle: string, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayIncludesString', 'array', x, message);
+  if (!(x as any[]).some((item) => String(item).includes(needle))) {
+    return fail({ code: 'ARRAY_NOT_INCLUDES', assertion: 'assertArrayIncludesString', expected: needle, actual: x }, message);
+  }
 }
 
 /** Asserts that x is an array including the exact number `needle`. */
-export function assertArrayIncludesNumber<T = unknown>(x: unknown, needle: number, message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array`);
-  assert(
-    (x as any[]).some((item) => item === needle),
-    message ?? `Expected array to include number ${needle}`
-  );
+export function assertArrayIncludesNumber<T = unknown>(x: unknown, needle: number, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayIncludesNumber', 'array', x, message);
+  if (!(x as any[]).some((item) => item === needle)) {
+    return fail({ code: 'ARRAY_NOT_INCLUDES', assertion: 'assertArrayIncludesNumber', expected: needle, actual: x }, message);
+  }
 }
 
 /** Asserts that x is an array including an object deep-equal to `needle`. */
-export function assertArrayIncludesObject<T = unknown>(x: unknown, needle: Record<string, unknown>, message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array`);
+export function assertArrayIncludesObject<T = unknown>(x: unknown, needle: Record<string, unknown>, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayIncludesObject', 'array', x, message);
   const needleStr = JSON.stringify(needle);
-  assert(
-    (x as any[]).some((item) => JSON.stringify(item) === needleStr),
-    message ?? `Expected array to include object ${needleStr}`
-  );
+  if (!(x as any[]).some((item) => JSON.stringify(item) === needleStr)) {
+    return fail({ code: 'ARRAY_NOT_INCLUDES', assertion: 'assertArrayIncludesObject', expected: needle, actual: x }, message);
+  }
 }
 
 /** Asserts that x is an array whose every element is a plain object. */
-export function assertArrayOnlyHasObjects<T = unknown>(x: unknown, message?: string): asserts x is Record<string, unknown>[] {
-  assertArray<T>(x, message ?? `Expected array`);
-  assert(
-    (x as any[]).every((item) => typeof item === 'object' && item !== null && !Array.isArray(item)),
-    message ?? `Expected array to only contain objects`
-  );
+export function assertArrayOnlyHasObjects<T = unknown>(x: unknown, message?: AssertMessage): asserts x is Record<string, unknown>[] {
+  if (!isArray<T>(x)) return failType('assertArrayOnlyHasObjects', 'array', x, message);
+  const bad = (x as any[]).findIndex((item) => !isObject(item));
+  if (bad !== -1) {
+    return fail({ code: 'ARRAY_ITEM_TYPE', assertion: 'assertArrayOnlyHasObjects', expected: 'object', actual: (x as any[])[bad], path: `[${bad}]` }, message);
+  }
 }
 
 /** Asserts that x is an array whose every element is a string. */
-export function assertArrayOnlyHasStrings<T = unknown>(x: unknown, message?: string): asserts x is string[] {
-  assertArray<T>(x, message ?? `Expected array`);
-  assert(
-    (x as any[]).every((item) => typeof item === 'string'),
-    message ?? `Expected array to only contain strings`
-  );
+export function assertArrayOnlyHasStrings<T = unknown>(x: unknown, message?: AssertMessage): asserts x is string[] {
+  if (!isArray<T>(x)) return failType('assertArrayOnlyHasStrings', 'array', x, message);
+  const bad = (x as any[]).findIndex((item) => typeof item !== 'string');
+  if (bad !== -1) {
+    return fail({ code: 'ARRAY_ITEM_TYPE', assertion: 'assertArrayOnlyHasStrings', expected: 'string', actual: (x as any[])[bad], path: `[${bad}]` }, message);
+  }
 }
 
 /** Asserts that x is an array whose every element is a number. */
-export function assertArrayOnlyHasNumbers<T = unknown>(x: unknown, message?: string): asserts x is number[] {
-  assertArray<T>(x, message ?? `Expected array`);
-  assert(
-    (x as any[]).every((item) => typeof item === 'number'),
-    message ?? `Expected array to only contain numbers`
-  );
+export function assertArrayOnlyHasNumbers<T = unknown>(x: unknown, message?: AssertMessage): asserts x is number[] {
+  if (!isArray<T>(x)) return failType('assertArrayOnlyHasNumbers', 'array', x, message);
+  const bad = (x as any[]).findIndex((item) => typeof item !== 'number');
+  if (bad !== -1) {
+    return fail({ code: 'ARRAY_ITEM_TYPE', assertion: 'assertArrayOnlyHasNumbers', expected: 'number', actual: (x as any[])[bad], path: `[${bad}]` }, message);
+  }
 }
 
 /** Asserts that x is an array and every element is falsy. */
-export function assertArrayEveryIsFalsy<T = unknown>(x: unknown, message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array`);
-  assert(
-    (x as any[]).every((item) => !item),
-    message ?? `Expected every item to be falsy`
-  );
+export function assertArrayEveryIsFalsy<T = unknown>(x: unknown, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayEveryIsFalsy', 'array', x, message);
+  const bad = (x as any[]).findIndex((item) => !!item);
+  if (bad !== -1) {
+    return fail({ code: 'ARRAY_ITEM_NOT_FALSY', assertion: 'assertArrayEveryIsFalsy', expected: 'falsy', actual: (x as any[])[bad], path: `[${bad}]` }, message);
+  }
 }
 
 /** Asserts that x is an array and every element is truthy. */
-export function assertArrayEveryIsTruthy<T = unknown>(x: unknown, message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array`);
-  assert(
-    (x as any[]).every((item) => !!item),
-    message ?? `Expected every item to be truthy`
-  );
+export function assertArrayEveryIsTruthy<T = unknown>(x: unknown, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayEveryIsTruthy', 'array', x, message);
+  const bad = (x as any[]).findIndex((item) => !item);
+  if (bad !== -1) {
+    return fail({ code: 'ARRAY_ITEM_NOT_TRUTHY', assertion: 'assertArrayEveryIsTruthy', expected: 'truthy', actual: (x as any[])[bad], path: `[${bad}]` }, message);
+  }
 }
 
 /** Assert an array has all unique items by strict equality (===). */
-export function assertArrayUnique<T = unknown>(x: unknown, message = 'Expected array with unique items'): asserts x is T[] {
-  assertArray<T>(x, message);
+export function assertArrayUnique<T = unknown>(x: unknown, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayUnique', 'array', x, message);
   const arr = x as any[];
   const seen = new Set<any>();
-  for (const item of arr) {
+  for (let i = 0; i < arr.length; i++) {
+    const item = arr[i];
     if (seen.has(item)) {
-      assert(false, message);
+      return fail({ code: 'ARRAY_DUPLICATE_ITEM', assertion: 'assertArrayUnique', expected: 'unique items', actual: item, path: `[${i}]` }, message);
     }
     seen.add(item);
   }
 }
 
 /** Asserts that x is an array including an element for which predicate returns true. */
-export function assertArrayIncludesCondition<T = unknown>(x: unknown, predicate: (item: unknown) => boolean, message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array`);
-  assert((x as any[]).some(predicate), message ?? `Expected array to include an item matching condition`);
+export function assertArrayIncludesCondition<T = unknown>(x: unknown, predicate: (item: unknown) => boolean, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertArrayIncludesCondition', 'array', x, message);
+  if (!(x as any[]).some(predicate)) {
+    return fail({ code: 'ARRAY_NOT_INCLUDES', assertion: 'assertArrayIncludesCondition', expected: predicate.name || 'predicate', actual: x }, message);
+  }
 }
 
 // ---- Objects ----
 
 /** Asserts that obj is a plain object containing the provided key. */
-export function assertHasKey<O extends Record<string, unknown>, K extends string>(obj: unknown, key: K, message?: string): asserts obj is O & Record<K, unknown> {
-  assertObject(obj, message ?? `Expected object`);
-  assert(key in (obj as Record<string, unknown>), message ?? `Expected key "${key}"`);
+export function assertHasKey<O extends Record<string, unknown>, K extends string>(obj: unknown, key: K, message?: AssertMessage): asserts obj is O & Record<K, unknown> {
+  if (!isObject(obj)) return failType('assertHasKey', 'object', obj, message);
+  if (!(key in obj)) return fail({ code: 'OBJECT_MISSING_KEY', assertion: 'assertHasKey', expected: key, actual: Object.keys(obj), path: key }, message);
 }
 
 /** Asserts that obj is a plain object containing all provided keys. */
 export function assertHasKeys<O extends Record<string, unknown>, const K extends readonly string[]>(obj: unknown, ...keys: K): asserts obj is O & { [P in K[number]]: unknown } {
-  assertObject(obj, `Expected object`);
-  const r = obj as Record<string, unknown>;
-  assert(
-    keys.every((k) => k in r),
-    `Expected keys: ${keys.join(', ')}`
-  );
+  if (!isObject(obj)) return failType('assertHasKeys', 'object', obj);
+  const r = obj;
+  const missing = keys.filter((k) => !(k in r));
+  if (missing.length > 0) {
+    return fail({ code: 'OBJECT_MISSING_KEY', assertion: 'assertHasKeys', expected: missing, actual: Object.keys(r), path: missing[0] });
+  }
 }
 
 /** Asserts that obj[key] strictly equals expected. */
-export function assertKeyEquals<O extends Record<string, unknown>, K extends keyof O>(obj: unknown, key: K, expected: unknown, message?: string): asserts obj is O {
-  assertObject(obj, message ?? `Expected object`);
-  assert((obj as any)[key] === expected, message ?? `Expected key "${String(key)}" to equal ${JSON.stringify(expected)}`);
+export function assertKeyEquals<O extends Record<string, unknown>, K extends keyof O>(obj: unknown, key: K, expected: unknown, message?: AssertMessage): asserts obj is O {
+  if (!isObject(obj)) return failType('assertKeyEquals', 'object', obj, message);
+  const actual = (obj as any)[key];
+  if (actual !== expected) {
+    return fail({ code: 'OBJECT_KEY_MISMATCH', assertion: 'assertKeyEquals', expected, actual, path: String(key) }, message);
+  }
 }
 
 /** Asserts that obj has exactly the same set of keys as `expected`. */
-export function assertSameKeys(obj: unknown, expected: Record<string, unknown>, message?: string): asserts obj is Record<string, unknown> {
-  assertObject(obj, message ?? `Expected object`);
-  const a = Object.keys(obj as Record<string, unknown>).sort();
+export function assertSameKeys(obj: unknown, expected: Record<string, unknown>, message?: AssertMessage): asserts obj is Record<string, unknown> {
+  if (!isObject(obj)) return failType('assertSameKeys', 'object', obj, message);
+  const a = Object.keys(obj).sort();
   const b = Object.keys(expected).sort();
-  assert(a.length === b.length && a.every((k, i) => k === b[i]), message ?? `Expected same keys`);
+  if (!(a.length === b.length && a.every((k, i) => k === b[i]))) {
+    return fail({ code: 'OBJECT_KEYS_MISMATCH', assertion: 'assertSameKeys', expected: b, actual: a }, message);
+  }
 }
 
 /** Asserts that every value in obj is falsy. */
-export function assertAllKeysFalsy(obj: unknown, message?: string): asserts obj is Record<string, unknown> {
-  assertObject(obj, message ?? `Expected object`);
-  assert(
-    Object.values(obj as Record<string, unknown>).every((v) => !v),
-    message ?? `Expected all keys to be falsy`
-  );
+export function assertAllKeysFalsy(obj: unknown, message?: AssertMessage): asserts obj is Record<string, unknown> {
+  if (!isObject(obj)) return failType('assertAllKeysFalsy', 'object', obj, message);
+  const bad = Object.keys(obj).find((k) => !!obj[k]);
+  if (bad !== undefined) {
+    return fail({ code: 'OBJECT_VALUE_NOT_FALSY', assertion: 'assertAllKeysFalsy', expected: 'falsy', actual: obj[bad], path: bad }, message);
+  }
 }
 
 /** Asserts that every value in obj is neither null nor undefined. */
-export function assertAllKeysSet(obj: unknown, message?: string): asserts obj is Record<string, unknown> {
-  assertObject(obj, message ?? `Expected object`);
-  const vals = Object.values(obj as Record<string, unknown>);
-  assert(
-    vals.every((v) => v !== null && v !== undefined),
-    message ?? `Expected all keys to be set (not null/undefined)`
-  );
+export function assertAllKeysSet(obj: unknown, message?: AssertMessage): asserts obj is Record<string, unknown> {
+  if (!isObject(obj)) return failType('assertAllKeysSet', 'object', obj, message);
+  const bad = Object.keys(obj).find((k) => obj[k] === null || obj[k] === undefined);
+  if (bad !== undefined) {
+    return fail({ code: 'OBJECT_VALUE_MISSING', assertion: 'assertAllKeysSet', expected: 'present', actual: obj[bad], path: bad }, message);
+  }
 }
 
 /** Asserts that at least one value in obj is null. */
-export function assertAnyKeyNull(obj: unknown, message?: string): asserts obj is Record<string, unknown> {
-  assertObject(obj, message ?? `Expected object`);
-  const vals = Object.values(obj as Record<string, unknown>);
-  assert(
-    vals.some((v) => v === null),
-    message ?? `Expected any key to be null`
-  );
+export function assertAnyKeyNull(obj: unknown, message?: AssertMessage): asserts obj is Record<string, unknown> {
+  if (!isObject(obj)) return failType('assertAnyKeyNull', 'object', obj, message);
+  if (!Object.values(obj).some((v) => v === null)) {
+    return fail({ code: 'OBJECT_NO_NULL_VALUE', assertion: 'assertAnyKeyNull', expected: 'a null value', actual: obj }, message);
+  }
 }
 
 // ---- Elements ----
@@ -1102,58 +2216,59 @@ export function isElement(x: unknown): x is Element {
 }
 
 /** Asserts that x is a DOM Element. */
-export function assertElement(x: unknown, message = 'Expected Element'): asserts x is Element {
-  assert(isElement(x), message);
+export function assertElement(x: unknown, message?: AssertMessage): asserts x is Element {
+  if (!isElement(x)) return failType('assertElement', 'element', x, message);
 }
 
 /** Asserts that the element has at least one child node/element. */
-export function assertElementHasChildren(x: unknown, message = 'Expected element to have children'): asserts x is Element {
-  assertElement(x, message);
-  const el = x as Element;
+export function assertElementHasChildren(x: unknown, message?: AssertMessage): asserts x is Element {
+  if (!isElement(x)) return failType('assertElementHasChildren', 'element', x, message);
+  const el = x;
   const count = (el as any).children?.length ?? el.childNodes?.length ?? 0;
-  assert(count > 0, message);
+  if (!(count > 0)) return fail({ code: 'ELEMENT_NO_CHILDREN', assertion: 'assertElementHasChildren', expected: 'children', actual: count }, message);
 }
 
 /** Asserts that the element has at least one child element. */
-export function assertElementHasChild(x: unknown, message = 'Expected element to have a child'): asserts x is Element {
-  assertElement(x, message);
-  const el = x as Element;
-  assert((el as any).children?.length > 0, message);
+export function assertElementHasChild(x: unknown, message?: AssertMessage): asserts x is Element {
+  if (!isElement(x)) return failType('assertElementHasChild', 'element', x, message);
+  const el = x;
+  if (!((el as any).children?.length > 0)) return fail({ code: 'ELEMENT_NO_CHILDREN', assertion: 'assertElementHasChild', expected: 'child element', actual: (el as any).children?.length ?? 0 }, message);
 }
 
 /** Asserts that the element has a child matching the CSS selector. */
-export function assertElementHasChildMatching(x: unknown, selector: string, message?: string): asserts x is Element {
-  assertElement(x, message ?? `Expected element`);
-  const el = x as Element;
+export function assertElementHasChildMatching(x: unknown, selector: string, message?: AssertMessage): asserts x is Element {
+  if (!isElement(x)) return failType('assertElementHasChildMatching', 'element', x, message);
+  const el = x;
   const children = Array.from((el as any).children ?? []) as Element[];
-  assert(
-    children.some((c) => c.matches?.(selector)),
-    message ?? `Expected child matching "${selector}"`
-  );
+  if (!children.some((c) => c.matches?.(selector))) {
+    return fail({ code: 'ELEMENT_NO_MATCHING_CHILD', assertion: 'assertElementHasChildMatching', expected: selector, actual: el.tagName }, message);
+  }
 }
 
 /** Asserts that the element has a descendant matching the CSS selector. */
-export function assertElementHasDescendant(x: unknown, selector: string, message?: string): asserts x is Element {
-  assertElement(x, message ?? `Expected element`);
-  const el = x as Element;
+export function assertElementHasDescendant(x: unknown, selector: string, message?: AssertMessage): asserts x is Element {
+  if (!isElement(x)) return failType('assertElementHasDescendant', 'element', x, message);
+  const el = x;
   const found = (el as any).querySelector?.(selector);
-  assert(!!found, message ?? `Expected descendant matching "${selector}"`);
+  if (!found) return fail({ code: 'ELEMENT_NO_DESCENDANT', assertion: 'assertElementHasDescendant', expected: selector, actual: el.tagName }, message);
 }
 
 /** Asserts that the element has the given attribute. */
-export function assertElementHasAttribute(x: unknown, name: string, message?: string): asserts x is Element {
-  assertElement(x, message ?? `Expected element`);
-  const el = x as Element;
+export function assertElementHasAttribute(x: unknown, name: string, message?: AssertMessage): asserts x is Element {
+  if (!isElement(x)) return failType('assertElementHasAttribute', 'element', x, message);
+  const el = x;
   const ok = (el as any).hasAttribute?.(name);
-  assert(!!ok, message ?? `Expected element to have attribute "${name}"`);
+  if (!ok) return fail({ code: 'ELEMENT_MISSING_ATTRIBUTE', assertion: 'assertElementHasAttribute', expected: name, actual: el.tagName, path: name }, message);
 }
 
 /** Asserts that the element's attribute equals the expected value. */
-export function assertElementAttributeEquals(x: unknown, name: string, expected: string, message?: string): asserts x is Element {
-  assertElement(x, message ?? `Expected element`);
-  const el = x as Element;
+export function assertElementAttributeEquals(x: unknown, name: string, expected: string, message?: AssertMessage): asserts x is Element {
+  if (!isElement(x)) return failType('assertElementAttributeEquals', 'element', x, message);
+  const el = x;
   const val = (el as any).getAttribute?.(name);
-  assert(val === expected, message ?? `Expected attribute "${name}" to equal "${expected}"`);
+  if (val !== expected) {
+    return fail({ code: 'ELEMENT_ATTRIBUTE_MISMATCH', assertion: 'assertElementAttributeEquals', expected, actual: val, path: name }, message);
+  }
 }
 
 /** Returns true if the Element is hidden via display:none or visibility:hidden (DOM environments). */
@@ -1171,40 +2286,48 @@ export function isElementVisible(x: unknown): x is Element {
 }
 
 /** Asserts that x is an Element currently hidden by CSS (display or visibility). */
-export function assertElementHidden(x: unknown, message = 'Expected element to be hidden'): asserts x is Element {
-  assert(isElementHidden(x), message);
+export function assertElementHidden(x: unknown, message?: AssertMessage): asserts x is Element {
+  if (!isElement(x)) return failType('assertElementHidden', 'element', x, message);
+  if (!isElementHidden(x)) return fail({ code: 'ELEMENT_NOT_HIDDEN', assertion: 'assertElementHidden', expected: 'hidden', actual: (x as Element).tagName }, message);
 }
 
 /** Asserts that x is an Element currently visible (not hidden by display/visibility). */
-export function assertElementVisible(x: unknown, message = 'Expected element to be visible'): asserts x is Element {
-  assert(isElementVisible(x), message);
+export function assertElementVisible(x: unknown, message?: AssertMessage): asserts x is Element {
+  if (!isElement(x)) return failType('assertElementVisible', 'element', x, message);
+  if (!isElementVisible(x)) return fail({ code: 'ELEMENT_NOT_VISIBLE', assertion: 'assertElementVisible', expected: 'visible', actual: (x as Element).tagName }, message);
 }
 
 // ---- Dates ----
 
 /** Asserts that x is a Date earlier than `than`. */
-export function assertDateEarlier(x: unknown, than: Date, message?: string): asserts x is Date {
-  assertDate(x, message ?? `Expected Date`);
-  assert((x as Date).getTime() < than.getTime(), message ?? `Expected date earlier than ${than.toISOString?.() ?? than}`);
+export function assertDateEarlier(x: unknown, than: Date, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateEarlier', 'date', x, message);
+  if (!(x.getTime() < than.getTime())) {
+    return fail({ code: 'DATE_NOT_BEFORE', assertion: 'assertDateEarlier', expected: than, actual: x }, message);
+  }
 }
 
 /** Asserts that x is a Date later than `than`. */
-export function assertDateLater(x: unknown, than: Date, message?: string): asserts x is Date {
-  assertDate(x, message ?? `Expected Date`);
-  assert((x as Date).getTime() > than.getTime(), message ?? `Expected date later than ${than.toISOString?.() ?? than}`);
+export function assertDateLater(x: unknown, than: Date, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateLater', 'date', x, message);
+  if (!(x.getTime() > than.getTime())) {
+    return fail({ code: 'DATE_NOT_AFTER', assertion: 'assertDateLater', expected: than, actual: x }, message);
+  }
 }
 
 /** Asserts that x is a Date within [min, max]. */
-export function assertDateBetween(x: unknown, min: Date, max: Date, message?: string): asserts x is Date {
-  assertDate(x, message ?? `Expected Date`);
-  const t = (x as Date).getTime();
-  assert(t >= min.getTime() && t <= max.getTime(), message ?? `Expected date between ${min.toISOString?.() ?? min} and ${max.toISOString?.() ?? max}`);
+export function assertDateBetween(x: unknown, min: Date, max: Date, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateBetween', 'date', x, message);
+  const t = x.getTime();
+  if (!(t >= min.getTime() && t <= max.getTime())) {
+    return fail({ code: 'DATE_OUT_OF_RANGE', assertion: 'assertDateBetween', expected: { min, max }, actual: x }, message);
+  }
 }
 
 /** Asserts that x is a Date whose full year equals `year`. */
-export function assertDateYear(x: unknown, year: number, message?: string): asserts x is Date {
-  assertDate(x, message ?? `Expected Date`);
-  assert((x as Date).getFullYear() === year, message ?? `Expected year ${year}`);
+export function assertDateYear(x: unknown, year: number, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateYear', 'date', x, message);
+  if (x.getFullYear() !== year) return fail({ code: 'DATE_YEAR_MISMATCH', assertion: 'assertDateYear', expected: year, actual: x.getFullYear() }, message);
 }
 
 // ---- Date Formats & Conversion ----
@@ -1213,40 +2336,39 @@ export function assertDateYear(x: unknown, year: number, message?: string): asse
 export type DateFormat = 'ISO' | 'UNIX_MS' | 'UNIX_S' | 'RFC_2822';
 
 /** Asserts that the input matches the expected date format shape. */
-export function assertDateFormat(input: unknown, format: DateFormat, message?: string): void {
+export function assertDateFormat(input: unknown, format: DateFormat, message?: AssertMessage): void {
+  const invalid = (): never => fail({ code: 'DATE_INVALID_FORMAT', assertion: 'assertDateFormat', expected: format, actual: input }, message);
   switch (format) {
     case 'ISO': {
-      assert(typeof input === 'string', message ?? 'Expected ISO string');
-      const s = input as string;
+      if (typeof input !== 'string') return invalid();
       // Basic ISO 8601 test via Date.parse consistency and presence of time components
-      const d = new Date(s);
-      assert(!Number.isNaN(d.getTime()), message ?? 'Invalid ISO date');
+      const d = new Date(input);
+      if (Number.isNaN(d.getTime())) return invalid();
       break;
     }
     case 'RFC_2822': {
-      assert(typeof input === 'string', message ?? 'Expected RFC 2822 string');
-      const s = input as string;
-      const t = Date.parse(s);
-      assert(Number.isFinite(t), message ?? 'Invalid RFC 2822 date');
+      if (typeof input !== 'string') return invalid();
+      const t = Date.parse(input);
+      if (!Number.isFinite(t)) return invalid();
       break;
     }
     case 'UNIX_MS': {
-      assert(typeof input === 'number' && Number.isFinite(input as number), message ?? 'Expected UNIX ms number');
-      const d = new Date(input as number);
-      assert(!Number.isNaN(d.getTime()), message ?? 'Invalid UNIX ms timestamp');
+      if (!(typeof input === 'number' && Number.isFinite(input))) return invalid();
+      const d = new Date(input);
+      if (Number.isNaN(d.getTime())) return invalid();
       break;
     }
     case 'UNIX_S': {
-      assert(typeof input === 'number' && Number.isFinite(input as number), message ?? 'Expected UNIX s number');
-      const d = new Date((input as number) * 1000);
-      assert(!Number.isNaN(d.getTime()), message ?? 'Invalid UNIX s timestamp');
+      if (!(typeof input === 'number' && Number.isFinite(input))) return invalid();
+      const d = new Date(input * 1000);
+      if (Number.isNaN(d.getTime())) return invalid();
       break;
     }
   }
 }
 
 /** Converts input of a given format to a Date (throws AssertError on failure). */
-export function DateFromFormat(format: DateFormat, input: unknown, message?: string): Date {
+export function DateFromFormat(format: DateFormat, input: unknown, message?: AssertMessage): Date {
   assertDateFormat(input, format, message);
   switch (format) {
     case 'ISO':
@@ -1260,94 +2382,112 @@ export function DateFromFormat(format: DateFormat, input: unknown, message?: str
 }
 
 /** Convenience: ensure date-like input, accepting several formats. */
-export function DateEnsure(input: unknown, message?: string, formats: DateFormat[] = ['ISO', 'UNIX_MS', 'UNIX_S', 'RFC_2822']): Date {
+export function DateEnsure(input: unknown, message?: AssertMessage, formats: DateFormat[] = ['ISO', 'UNIX_MS', 'UNIX_S', 'RFC_2822']): Date {
   for (const f of formats) {
     try {
-      return DateFromFormat(f, input);
+      return throwingAssertions(() => DateFromFormat(f, input));
     } catch (e) {
       if (!(e instanceof AssertError)) throw e;
     }
   }
-  throw new AssertError(message ?? 'Unrecognized date format', { got: typeof input });
+  return fail({ code: 'DATE_INVALID_FORMAT', assertion: 'DateEnsure', expected: formats, actual: input }, message, { got: typeof input });
 }
 
 // ---- Date ordering and relative-to-now ----
 
-export function assertDateBefore(x: unknown, than: Date, message?: string): asserts x is Date {
-  assertDate(x, message ?? 'Expected Date');
-  assert((x as Date).getTime() < than.getTime(), message ?? 'Expected date to be before reference');
+export function assertDateBefore(x: unknown, than: Date, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateBefore', 'date', x, message);
+  if (!(x.getTime() < than.getTime())) return fail({ code: 'DATE_NOT_BEFORE', assertion: 'assertDateBefore', expected: than, actual: x }, message);
 }
 
-export function assertDateAfter(x: unknown, than: Date, message?: string): asserts x is Date {
-  assertDate(x, message ?? 'Expected Date');
-  assert((x as Date).getTime() > than.getTime(), message ?? 'Expected date to be after reference');
+export function assertDateAfter(x: unknown, than: Date, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateAfter', 'date', x, message);
+  if (!(x.getTime() > than.getTime())) return fail({ code: 'DATE_NOT_AFTER', assertion: 'assertDateAfter', expected: than, actual: x }, message);
 }
 
-export function assertDateOnOrBefore(x: unknown, than: Date, message?: string): asserts x is Date {
-  assertDate(x, message ?? 'Expected Date');
-  assert((x as Date).getTime() <= than.getTime(), message ?? 'Expected date to be on or before reference');
+export function assertDateOnOrBefore(x: unknown, than: Date, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateOnOrBefore', 'date', x, message);
+  if (!(x.getTime() <= than.getTime())) {
+    return fail({ code: 'DATE_NOT_ON_OR_BEFORE', assertion: 'assertDateOnOrBefore', expected: than, actual: x }, message);
+  }
 }
 
-export function assertDateOnOrAfter(x: unknown, than: Date, message?: string): asserts x is Date {
-  assertDate(x, message ?? 'Expected Date');
-  assert((x as Date).getTime() >= than.getTime(), message ?? 'Expected date to be on or after reference');
+export function assertDateOnOrAfter(x: unknown, than: Date, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateOnOrAfter', 'date', x, message);
+  if (!(x.getTime() >= than.getTime())) {
+    return fail({ code: 'DATE_NOT_ON_OR_AFTER', assertion: 'assertDateOnOrAfter', expected: than, actual: x }, message);
+  }
 }
 
-export function assertDateBetweenInclusive(x: unknown, min: Date, max: Date, message?: string): asserts x is Date {
-  assertDate(x, message ?? 'Expected Date');
-  const t = (x as Date).getTime();
-  assert(t >= min.getTime() && t <= max.getTime(), message ?? 'Expected date within inclusive range');
+export function assertDateBetweenInclusive(x: unknown, min: Date, max: Date, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateBetweenInclusive', 'date', x, message);
+  const t = x.getTime();
+  if (!(t >= min.getTime() && t <= max.getTime())) {
+    return fail({ code: 'DATE_OUT_OF_RANGE', assertion: 'assertDateBetweenInclusive', expected: { min, max }, actual: x }, message);
+  }
 }
 
-export function assertDateBetweenExclusive(x: unknown, min: Date, max: Date, message?: string): asserts x is Date {
-  assertDate(x, message ?? 'Expected Date');
-  const t = (x as Date).getTime();
-  assert(t > min.getTime() && t < max.getTime(), message ?? 'Expected date within exclusive range');
+export function assertDateBetweenExclusive(x: unknown, min: Date, max: Date, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateBetweenExclusive', 'date', x, message);
+  const t = x.getTime();
+  if (!(t > min.getTime() && t < max.getTime())) {
+    return fail({ code: 'DATE_OUT_OF_RANGE', assertion: 'assertDateBetweenExclusive', expected: { min, max }, actual: x }, message);
+  }
 }
 
-export function assertDateInPast(x: unknown, message?: string): asserts x is Date {
-  assertDate(x, message ?? 'Expected Date');
-  assert((x as Date).getTime() < Date.now(), message ?? 'Expected date in the past');
+export function assertDateInPast(x: unknown, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateInPast', 'date', x, message);
+  if (!(x.getTime() < Date.now())) return fail({ code: 'DATE_NOT_IN_PAST', assertion: 'assertDateInPast', expected: 'past', actual: x }, message);
 }
 
-export function assertDateInFuture(x: unknown, message?: string): asserts x is Date {
-  assertDate(x, message ?? 'Expected Date');
-  assert((x as Date).getTime() > Date.now(), message ?? 'Expected date in the future');
+export function assertDateInFuture(x: unknown, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateInFuture', 'date', x, message);
+  if (!(x.getTime() > Date.now())) return fail({ code: 'DATE_NOT_IN_FUTURE', assertion: 'assertDateInFuture', expected: 'future', actual: x }, message);
 }
 
-export function assertDateWithinPast(x: unknown, ms: number, message?: string): asserts x is Date {
-  assertDate(x, message ?? 'Expected Date');
+export function assertDateWithinPast(x: unknown, ms: number, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateWithinPast', 'date', x, message);
   assertNumber(ms, 'Expected window in ms');
   const now = Date.now();
-  const t = (x as Date).getTime();
-  assert(t <= now && t >= now - ms, message ?? 'Expected date within past window');
+  const t = x.getTime();
+  if (!(t <= now && t >= now - ms)) {
+    return fail({ code: 'DATE_NOT_WITHIN_WINDOW', assertion: 'assertDateWithinPast', expected: { windowMs: -ms }, actual: x }, message);
+  }
 }
 
-export function assertDateWithinFuture(x: unknown, ms: number, message?: string): asserts x is Date {
-  assertDate(x, message ?? 'Expected Date');
+export function assertDateWithinFuture(x: unknown, ms: number, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateWithinFuture', 'date', x, message);
   assertNumber(ms, 'Expected window in ms');
   const now = Date.now();
-  const t = (x as Date).getTime();
-  assert(t >= now && t <= now + ms, message ?? 'Expected date within future window');
+  const t = x.getTime();
+  if (!(t >= now && t <= now + ms)) {
+    return fail({ code: 'DATE_NOT_WITHIN_WINDOW', assertion: 'assertDateWithinFuture', expected: { windowMs: ms }, actual: x }, message);
+  }
 }
 
 // ---- Date component equality ----
 
-export function assertDateSameYear(x: unknown, other: Date, message?: string): asserts x is Date {
-  assertDate(x, message ?? 'Expected Date');
-  assert((x as Date).getFullYear() === other.getFullYear(), message ?? 'Expected same year');
+export function assertDateSameYear(x: unknown, other: Date, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateSameYear', 'date', x, message);
+  if (x.getFullYear() !== other.getFullYear()) {
+    return fail({ code: 'DATE_YEAR_MISMATCH', assertion: 'assertDateSameYear', expected: other.getFullYear(), actual: x.getFullYear() }, message);
+  }
 }
 
-export function assertDateSameMonth(x: unknown, other: Date, message?: string): asserts x is Date {
-  assertDate(x, message ?? 'Expected Date');
-  const a = x as Date;
-  assert(a.getFullYear() === other.getFullYear() && a.getMonth() === other.getMonth(), message ?? 'Expected same month');
+export function assertDateSameMonth(x: unknown, other: Date, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateSameMonth', 'date', x, message);
+  const a = x;
+  if (!(a.getFullYear() === other.getFullYear() && a.getMonth() === other.getMonth())) {
+    return fail({ code: 'DATE_MONTH_MISMATCH', assertion: 'assertDateSameMonth', expected: other, actual: x }, message);
+  }
 }
 
-export function assertDateSameDay(x: unknown, other: Date, message?: string): asserts x is Date {
-  assertDate(x, message ?? 'Expected Date');
-  const a = x as Date;
-  assert(a.getFullYear() === other.getFullYear() && a.getMonth() === other.getMonth() && a.getDate() === other.getDate(), message ?? 'Expected same day');
+export function assertDateSameDay(x: unknown, other: Date, message?: AssertMessage): asserts x is Date {
+  if (!isDate(x)) return failType('assertDateSameDay', 'date', x, message);
+  const a = x;
+  if (!(a.getFullYear() === other.getFullYear() && a.getMonth() === other.getMonth() && a.getDate() === other.getDate())) {
+    return fail({ code: 'DATE_DAY_MISMATCH', assertion: 'assertDateSameDay', expected: other, actual: x }, message);
+  }
 }
 
 // ---- TimeSpan type and helpers ----
@@ -1381,19 +2521,21 @@ export function DateTimeSpanBetween(a: Date, b: Date): TimeSpan {
   return { ms: Math.abs(a.getTime() - b.getTime()) };
 }
 
-export function assertDateTimeSpanLessThan(a: Date, b: Date, limit: TimeSpan, message?: string): void {
+export function assertDateTimeSpanLessThan(a: Date, b: Date, limit: TimeSpan, message?: AssertMessage): void {
   const span = DateTimeSpanBetween(a, b);
-  assert(span.ms < limit.ms, message ?? 'Expected timespan less than limit');
+  if (!(span.ms < limit.ms)) return fail({ code: 'TIMESPAN_TOO_LONG', assertion: 'assertDateTimeSpanLessThan', expected: { lessThanMs: limit.ms }, actual: span.ms }, message);
 }
 
-export function assertDateTimeSpanLessOrEqual(a: Date, b: Date, limit: TimeSpan, message?: string): void {
+export function assertDateTimeSpanLessOrEqual(a: Date, b: Date, limit: TimeSpan, message?: AssertMessage): void {
   const span = DateTimeSpanBetween(a, b);
-  assert(span.ms <= limit.ms, message ?? 'Expected timespan <= limit');
+  if (!(span.ms <= limit.ms)) return fail({ code: 'TIMESPAN_TOO_LONG', assertion: 'assertDateTimeSpanLessOrEqual', expected: { atMostMs: limit.ms }, actual: span.ms }, message);
 }
 
-export function assertDateBetweenWithin(a: Date, b: Date, min: TimeSpan, max: TimeSpan, message?: string): void {
+export function assertDateBetweenWithin(a: Date, b: Date, min: TimeSpan, max: TimeSpan, message?: AssertMessage): void {
   const span = DateTimeSpanBetween(a, b);
-  assert(span.ms >= min.ms && span.ms <= max.ms, message ?? 'Expected timespan within bounds');
+  if (!(span.ms >= min.ms && span.ms <= max.ms)) {
+    return fail({ code: 'TIMESPAN_OUT_OF_RANGE', assertion: 'assertDateBetweenWithin', expected: { minMs: min.ms, maxMs: max.ms }, actual: span.ms }, message);
+  }
 }
 
 export function DateAddSpan(d: Date, span: TimeSpan): Date {
@@ -1411,23 +2553,23 @@ export function DateSubtractSpan(d: Date, span: TimeSpan): Date {
 // ---- Nullish / Boolean convenience ----
 
 /** Asserts that x is strictly true. */
-export function assertTrue(x: unknown, message = 'Expected true'): asserts x is true {
-  assert(x === true, message);
+export function assertTrue(x: unknown, message?: AssertMessage): asserts x is true {
+  if (x !== true) return fail({ code: 'NOT_TRUE', assertion: 'assertTrue', expected: true, actual: x }, message);
 }
 
 /** Asserts that x is strictly false. */
-export function assertFalse(x: unknown, message = 'Expected false'): asserts x is false {
-  assert(x === false, message);
+export function assertFalse(x: unknown, message?: AssertMessage): asserts x is false {
+  if (x !== false) return fail({ code: 'NOT_FALSE', assertion: 'assertFalse', expected: false, actual: x }, message);
 }
 
 /** Asserts that x is strictly null. */
-export function assertNull(x: unknown, message = 'Expected null'): asserts x is null {
-  assert(x === null, message);
+export function assertNull(x: unknown, message?: AssertMessage): asserts x is null {
+  if (x !== null) return fail({ code: 'NOT_NULL', assertion: 'assertNull', expected: null, actual: x }, message);
 }
 
 /** Asserts that x is strictly undefined. */
-export function assertUndefined(x: unknown, message = 'Expected undefined'): asserts x is undefined {
-  assert(x === undefined, message);
+export function assertUndefined(x: unknown, message?: AssertMessage): asserts x is undefined {
+  if (x !== undefined) return fail({ code: 'NOT_UNDEFINED', assertion: 'assertUndefined', expected: undefined, actual: x }, message);
 }
 
 // ==========================
@@ -1435,51 +2577,53 @@ export function assertUndefined(x: unknown, message = 'Expected undefined'): ass
 // ==========================
 
 /** Asserts that x is a number not equal to 0. */
-export function assertNumberNotZero(x: unknown, message = 'Expected non-zero number'): asserts x is number {
-  assertNumber(x, message);
-  assert((x as number) !== 0, message);
+export function assertNumberNotZero(x: unknown, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumberNotZero', 'number', x, message);
+  if (x === 0) return fail({ code: 'NUMBER_ZERO', assertion: 'assertNumberNotZero', expected: 'non-zero number', actual: x }, message);
 }
 
 /** Asserts that x is a number strictly greater than 0. */
-export function assertNumberPositive(x: unknown, message = 'Expected positive number'): asserts x is number {
-  assertNumber(x, message);
-  assert((x as number) > 0, message);
+export function assertNumberPositive(x: unknown, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumberPositive', 'number', x, message);
+  if (!(x > 0)) return fail({ code: 'NUMBER_NOT_POSITIVE', assertion: 'assertNumberPositive', expected: '> 0', actual: x }, message);
 }
 
 /** Asserts that x is a number >= 0. */
-export function assertNumberNonNegative(x: unknown, message = 'Expected non-negative number'): asserts x is number {
-  assertNumber(x, message);
-  assert((x as number) >= 0, message);
+export function assertNumberNonNegative(x: unknown, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumberNonNegative', 'number', x, message);
+  if (!(x >= 0)) return fail({ code: 'NUMBER_NOT_NON_NEGATIVE', assertion: 'assertNumberNonNegative', expected: '>= 0', actual: x }, message);
 }
 
 /** Asserts that x is a number strictly less than 0. */
-export function assertNumberNegative(x: unknown, message = 'Expected negative number'): asserts x is number {
-  assertNumber(x, message);
-  assert((x as number) < 0, message);
+export function assertNumberNegative(x: unknown, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumberNegative', 'number', x, message);
+  if (!(x < 0)) return fail({ code: 'NUMBER_NOT_NEGATIVE', assertion: 'assertNumberNegative', expected: '< 0', actual: x }, message);
 }
 
 /** Asserts that x is a number <= 0. */
-export function assertNumberNonPositive(x: unknown, message = 'Expected non-positive number'): asserts x is number {
-  assertNumber(x, message);
-  assert((x as number) <= 0, message);
+export function assertNumberNonPositive(x: unknown, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumberNonPositive', 'number', x, message);
+  if (!(x <= 0)) return fail({ code: 'NUMBER_NOT_NON_POSITIVE', assertion: 'assertNumberNonPositive', expected: '<= 0', actual: x }, message);
 }
 
 /** Asserts that x is an integer (Number.isInteger). */
-export function assertNumberInteger(x: unknown, message = 'Expected integer'): asserts x is number {
-  assertNumber(x, message);
-  assert(Number.isInteger(x as number), message);
+export function assertNumberInteger(x: unknown, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumberInteger', 'number', x, message);
+  if (!Number.isInteger(x)) return fail({ code: 'NUMBER_NOT_INTEGER', assertion: 'assertNumberInteger', expected: 'integer', actual: x }, message);
 }
 
 /** Asserts that x is a safe integer (Number.isSafeInteger). */
-export function assertNumberSafeInteger(x: unknown, message = 'Expected safe integer'): asserts x is number {
-  assertNumber(x, message);
-  assert(Number.isSafeInteger(x as number), message);
+export function assertNumberSafeInteger(x: unknown, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumberSafeInteger', 'number', x, message);
+  if (!Number.isSafeInteger(x)) return fail({ code: 'NUMBER_NOT_SAFE_INTEGER', assertion: 'assertNumberSafeInteger', expected: 'safe integer', actual: x }, message);
 }
 
 /** Asserts that x is a number within ±epsilon of expected. */
-export function assertNumberApproxEquals(x: unknown, expected: number, epsilon = 1e-9, message?: string): asserts x is number {
-  assertNumber(x, message ?? `Expected approximately ${expected} ± ${epsilon}`);
-  assert(Math.abs((x as number) - expected) <= epsilon, message ?? `Expected approximately ${expected} ± ${epsilon}`);
+export function assertNumberApproxEquals(x: unknown, expected: number, epsilon = 1e-9, message?: AssertMessage): asserts x is number {
+  if (!isNumber(x)) return failType('assertNumberApproxEquals', 'number', x, message);
+  if (!(Math.abs(x - expected) <= epsilon)) {
+    return fail({ code: 'NUMBER_NOT_APPROX_EQUAL', assertion: 'assertNumberApproxEquals', expected: { value: expected, epsilon }, actual: x }, message);
+  }
 }
 
 // Aliases for descriptive naming
@@ -1495,25 +2639,25 @@ export const assertIsNegative = assertNumberNegative;
 // ==========================
 
 /** Asserts that x is an array of objects and each object contains `key`. */
-export function assertObjectArrayAllHaveKey<T = Record<string, unknown>>(x: unknown, key: string, message?: string): asserts x is T[] {
-  assertArray<T>(x, message ?? `Expected array`);
-  assert(
-    (x as any[]).every((item) => typeof item === 'object' && item !== null && !Array.isArray(item) && key in (item as Record<string, unknown>)),
-    message ?? `Expected every object in array to have key "${key}"`
-  );
+export function assertObjectArrayAllHaveKey<T = Record<string, unknown>>(x: unknown, key: string, message?: AssertMessage): asserts x is T[] {
+  if (!isArray<T>(x)) return failType('assertObjectArrayAllHaveKey', 'array', x, message);
+  const bad = (x as any[]).findIndex((item) => !(isObject(item) && key in item));
+  if (bad !== -1) {
+    return fail({ code: 'ARRAY_ITEM_MISSING_KEY', assertion: 'assertObjectArrayAllHaveKey', expected: key, actual: (x as any[])[bad], path: `[${bad}].${key}` }, message);
+  }
 }
 
 /** Asserts that x is an array of objects and each object contains all provided keys. */
 export function assertObjectArrayEveryHasKeys<T = Record<string, unknown>>(x: unknown, ...keys: string[]): asserts x is T[] {
-  assertArray<T>(x, `Expected array`);
-  assert(
-    (x as any[]).every((item) => {
-      if (!(typeof item === 'object' && item !== null && !Array.isArray(item))) return false;
-      const r = item as Record<string, unknown>;
-      return keys.every((k) => k in r);
-    }),
-    `Expected every object in array to have keys: ${keys.join(', ')}`
-  );
+  if (!isArray<T>(x)) return failType('assertObjectArrayEveryHasKeys', 'array', x);
+  const arr = x as any[];
+  for (let i = 0; i < arr.length; i++) {
+    const item = arr[i];
+    const missing = isObject(item) ? keys.filter((k) => !(k in item)) : keys;
+    if (missing.length > 0) {
+      return fail({ code: 'ARRAY_ITEM_MISSING_KEY', assertion: 'assertObjectArrayEveryHasKeys', expected: missing, actual: item, path: `[${i}]` });
+    }
+  }
 }
 
 // ==========================
@@ -1521,8 +2665,8 @@ export function assertObjectArrayEveryHasKeys<T = Record<string, unknown>>(x: un
 // ==========================
 
 /** Asserts that x is strictly equal to one of the provided primitive options. */
-export function assertOneOfPrimitive<T extends string | number | boolean>(x: unknown, options: readonly T[], message?: string): asserts x is T {
-  assert(options.includes(x as T), message ?? `Expected one of [${options.join(', ')}]`);
+export function assertOneOfPrimitive<T extends string | number | boolean>(x: unknown, options: readonly T[], message?: AssertMessage): asserts x is T {
+  if (!options.includes(x as T)) return fail({ code: 'NOT_ONE_OF', assertion: 'assertOneOfPrimitive', expected: options, actual: x }, message);
 }
 
 // ==========================
@@ -1553,19 +2697,8 @@ export type AssertOnFailOptions = {
  * @param options catchNonAssertErrors: when true, non-AssertError exceptions are converted to AssertError and passed to onFail
  */
 export function assertOnFail<T>(fn: () => T, onFail: (err: AssertError) => T, options: AssertOnFailOptions = {}): T {
-  const { catchNonAssertErrors = false } = options;
-  try {
-    return fn();
-  } catch (e) {
-    if (e instanceof AssertError) {
-      return onFail(e);
-    }
-    if (catchNonAssertErrors) {
-      const err = e instanceof Error ? e : new Error(String(e));
-      return onFail(new AssertError(err.message, { cause: err } as any));
-    }
-    throw e;
-  }
+  const result = executeRoute(fn, [], { catchNonAssertErrors: options.catchNonAssertErrors });
+  return result.ok ? result.value : onFail(result.error);
 }
 
 /** Fluent helper to compose on-fail behavior */
@@ -1578,7 +2711,7 @@ export function assertOnFail<T>(fn: () => T, onFail: (err: AssertError) => T, op
 export function onFail<T>(fn: () => T) {
   return {
     return: (fallback: T, options?: AssertOnFailOptions) =>
-      assertRoute(fallback, fn, {
+      runRoute(fallback, fn, {
         catchNonAssertErrors: options?.catchNonAssertErrors,
       }),
     run: (handler: (err: AssertError) => T, options?: AssertOnFailOptions) => assertOnFail(fn, handler, options),
@@ -1588,7 +2721,7 @@ export function onFail<T>(fn: () => T) {
 export function ifFails<T>(fallback: T, logFail: boolean = true) {
   return {
     on: (fn: (...args: any[]) => T) =>
-      assertRoute(fallback, fn, {
+      assertRouteFn(fallback, fn, {
         catchNonAssertErrors: false,
         onError: (e: Error) => {
           if (e instanceof AssertError && logFail) {
@@ -1608,7 +2741,7 @@ type AnyFn<Args extends any[] = any[], R = any> = (...args: Args) => R;
 export function _fn<Args extends any[], R>(defaultValue: R, impl: (...args: Args) => R): (...args: Args) => R {
   return (...args: Args): R => {
     try {
-      return impl(...args);
+      return throwingAssertions(() => impl(...args));
     } catch (e) {
       // log as needed
       return defaultValue;
@@ -1650,18 +2783,18 @@ function deepEqual(a: any, b: any): boolean {
 }
 
 /** Asserts referential/primitive equality (===). */
-export function assertEquals<T>(actual: T, expected: T, message?: string) {
-  assert(actual === expected, message ?? `Expected ${JSON.stringify(actual)} === ${JSON.stringify(expected)}`);
+export function assertEquals<T>(actual: T, expected: T, message?: AssertMessage) {
+  if (actual !== expected) return fail({ code: 'NOT_EQUAL', assertion: 'assertEquals', expected, actual }, message);
 }
 
 /** Asserts non-equality (!==). */
-export function assertNotEquals<T>(actual: T, expected: T, message?: string) {
-  assert(actual !== expected, message ?? `Expected values to differ`);
+export function assertNotEquals<T>(actual: T, expected: T, message?: AssertMessage) {
+  if (actual === expected) return fail({ code: 'UNEXPECTED_EQUAL', assertion: 'assertNotEquals', expected, actual }, message);
 }
 
 /** Asserts deep equality using a simple structural comparison (arrays, objects, dates). */
-export function assertDeepEquals<T>(actual: T, expected: T, message?: string) {
-  assert(deepEqual(actual, expected), message ?? `Expected deep equality`);
+export function assertDeepEquals<T>(actual: T, expected: T, message?: AssertMessage) {
+  if (!deepEqual(actual, expected)) return fail({ code: 'NOT_DEEP_EQUAL', assertion: 'assertDeepEquals', expected, actual }, message);
 }
 
 // ==========================
@@ -1669,30 +2802,30 @@ export function assertDeepEquals<T>(actual: T, expected: T, message?: string) {
 // ==========================
 
 /** Asserts that x is a plain object with at least one own key. */
-export function assertNonEmptyRecord(x: unknown, message = 'Expected non-empty object'): asserts x is Record<string, unknown> {
-  assertObject(x, message);
-  assert(Object.keys(x as Record<string, unknown>).length > 0, message);
+export function assertNonEmptyRecord(x: unknown, message?: AssertMessage): asserts x is Record<string, unknown> {
+  if (!isObject(x)) return failType('assertNonEmptyRecord', 'object', x, message);
+  if (Object.keys(x).length === 0) return fail({ code: 'OBJECT_EMPTY', assertion: 'assertNonEmptyRecord', expected: 'non-empty object', actual: x }, message);
 }
 
 /** Asserts that `obj` contains all keys/values present in `subset` (deep-equality per key). */
-export function assertSubset(obj: unknown, subset: Record<string, unknown>, message?: string): asserts obj is Record<string, unknown> {
-  assertObject(obj, message ?? `Expected object`);
-  const r = obj as Record<string, unknown>;
+export function assertSubset(obj: unknown, subset: Record<string, unknown>, message?: AssertMessage): asserts obj is Record<string, unknown> {
+  if (!isObject(obj)) return failType('assertSubset', 'object', obj, message);
+  const r = obj;
   for (const [k, v] of Object.entries(subset)) {
-    assert(k in r, message ?? `Missing key: ${k}`);
-    assert(deepEqual((r as any)[k], v), message ?? `Mismatched value at key: ${k}`);
+    if (!(k in r)) return fail({ code: 'OBJECT_MISSING_KEY', assertion: 'assertSubset', expected: k, actual: Object.keys(r), path: k }, message);
+    if (!deepEqual((r as any)[k], v)) return fail({ code: 'OBJECT_KEY_MISMATCH', assertion: 'assertSubset', expected: v, actual: r[k], path: k }, message);
   }
 }
 
 /** Asserts that `obj` has a defined path (e.g., 'a.b[0].c' via array form). */
-export function assertHasPath(obj: unknown, path: string | Array<string | number>, message?: string): asserts obj is Record<string, unknown> {
-  assertObject(obj, message ?? `Expected object`);
+export function assertHasPath(obj: unknown, path: string | Array<string | number>, message?: AssertMessage): asserts obj is Record<string, unknown> {
+  if (!isObject(obj)) return failType('assertHasPath', 'object', obj, message);
   const parts = Array.isArray(path) ? path : path.split('.').filter(Boolean);
   let curr: any = obj;
-  for (const p of parts) {
-    const key = typeof p === 'number' ? p : p;
+  for (let i = 0; i < parts.length; i++) {
+    const key = parts[i];
     if (curr == null || !(key in curr)) {
-      assert(false, message ?? `Missing path: ${parts.join('.')}`);
+      return fail({ code: 'OBJECT_MISSING_PATH', assertion: 'assertHasPath', expected: parts.join('.'), actual: curr, path: parts.slice(0, i + 1).join('.') }, message);
     }
     curr = curr[key as any];
   }
@@ -1703,157 +2836,1370 @@ export function assertHasPath(obj: unknown, path: string | Array<string | number
 // ==========================
 
 /** Asserts that m is a Map containing the given key. */
-export function assertMapHasKey<K, V>(m: unknown, key: K, message?: string): asserts m is Map<K, V> {
-  assert(m instanceof Map, message ?? `Expected Map`);
-  assert((m as Map<K, V>).has(key), message ?? `Expected Map to have key`);
+export function assertMapHasKey<K, V>(m: unknown, key: K, message?: AssertMessage): asserts m is Map<K, V> {
+  if (!(m instanceof Map)) return failType('assertMapHasKey', 'map', m, message);
+  if (!m.has(key)) return fail({ code: 'MAP_MISSING_KEY', assertion: 'assertMapHasKey', expected: key, actual: Array.from(m.keys()) }, message);
 }
 
 /** Asserts that s is a Set containing the given value. */
-export function assertSetHasValue<T>(s: unknown, value: T, message?: string): asserts s is Set<T> {
-  assert(s instanceof Set, message ?? `Expected Set`);
-  assert((s as Set<T>).has(value), message ?? `Expected Set to contain value`);
+export function assertSetHasValue<T>(s: unknown, value: T, message?: AssertMessage): asserts s is Set<T> {
+  if (!(s instanceof Set)) return failType('assertSetHasValue', 'set', s, message);
+  if (!s.has(value)) return fail({ code: 'SET_MISSING_VALUE', assertion: 'assertSetHasValue', expected: value, actual: Array.from(s) }, message);
 }
 
 // ==========================
-// Schema matcher (lightweight)
+// Schema matcher
 // ==========================
 
 /** Primitive schema types supported by assertMatchesSchema. */
 type PrimitiveTypeName = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'date';
-type SchemaRule = PrimitiveTypeName | ((x: unknown) => boolean);
+
+/** Values accepted by `s.literal`. */
+export type SchemaLiteral = string | number | boolean | null | undefined;
+
 /**
- * Very small schema representation: a record of key -> rule, where rule is a primitive type name
- * or a predicate function receiving the value.
+ * A rule for one value in a schema:
+ * - a primitive type name ('string', 'number', 'boolean', 'object', 'array', 'date')
+ * - a predicate `(x) => boolean` (a type guard `(x): x is T` also drives inference)
+ * - a nested object shape `{ key: rule }`, or `[rule]` for an array of rule
+ * - a node built with `s` (optional, nullable, literal, union, object, array)
  */
-export type SimpleSchema = Record<string, SchemaRule>;
+export type SchemaRule = PrimitiveTypeName | ((x: unknown) => boolean) | ChainValidator<any> | SimpleSchema | readonly [SchemaRule] | SchemaNode<any>;
 
 /**
- * Asserts that object `x` matches the given simple schema. For function rules, the predicate must return true.
+ * Object schema: a record of key -> rule. Nested shapes, arrays and `s` nodes are allowed, so
+ * this describes whole documents; define schemas with `s.object({...})` or `as const` to keep
+ * literal rule names for `Infer`.
  */
-export function assertMatchesSchema(x: unknown, schema: SimpleSchema, message?: string): asserts x is Record<string, unknown> {
-  assertObject(x, message ?? `Expected object`);
-  const r = x as Record<string, unknown>;
-  for (const [k, rule] of Object.entries(schema)) {
-    const v = r[k];
-    if (typeof rule === 'function') {
-      assert(rule(v), message ?? `Schema predicate failed at ${k}`);
-    } else {
-      switch (rule) {
-        case 'string':
-          assert(typeof v === 'string', message ?? `Expected ${k} to be string`);
-          break;
-        case 'number':
-          assert(typeof v === 'number' && Number.isFinite(v as number), message ?? `Expected ${k} to be number`);
-          break;
-        case 'boolean':
-          assert(typeof v === 'boolean', message ?? `Expected ${k} to be boolean`);
-          break;
-        case 'object':
-          assert(typeof v === 'object' && v !== null && !Array.isArray(v), message ?? `Expected ${k} to be object`);
-          break;
-        case 'array':
-          assert(Array.isArray(v), message ?? `Expected ${k} to be array`);
-          break;
-        case 'date':
-          assert(v instanceof Date && !Number.isNaN(v.getTime?.()), message ?? `Expected ${k} to be Date`);
-          break;
-      }
-    }
-  }
+export type SimpleSchema = { readonly [key: string]: SchemaRule };
+
+/**
+ * How an object schema treats keys that are not in its shape:
+ * - 'passthrough' (default): allowed and kept
+ * - 'strict': fail with OBJECT_UNKNOWN_KEYS, listing every unexpected key path
+ * - 'strip': allowed, and left out of the copy returned by expectSchema
+ */
+export type UnknownKeysMode = 'strict' | 'strip' | 'passthrough';
+
+type SchemaNodeDef =
+  | { kind: 'optional'; rule: SchemaRule }
+  | { kind: 'nullable'; rule: SchemaRule }
+  | { kind: 'literal'; values: readonly SchemaLiteral[] }
+  | { kind: 'union'; rules: readonly SchemaRule[] }
+  | { kind: 'object'; shape: SimpleSchema; unknownKeys?: UnknownKeysMode }
+  | { kind: 'array'; rule: SchemaRule }
+  | { kind: 'default'; rule: SchemaRule; value: unknown }
+  | { kind: 'lazy'; get: () => SchemaRule; name?: string }
+  | { kind: 'refine'; rule: SchemaRule; refinement: SchemaRefinement<any> };
+
+/** Passed to refinements: `at(path, check)` reports the failure of check at a path below the refined value. */
+export type RefineContext = { at(path: string, check: () => void): void };
+
+/**
+ * Check on a whole value that already matched its rule. Fail by returning false, by calling any
+ * assert* helper, or via `ctx.at(path, () => assert...)` to report against a key path.
+ */
+export type SchemaRefinement<T> = (value: T, ctx: RefineContext) => boolean | void;
+
+/** A schema node built with the `s` helpers; `T` is the type the node validates. */
+export class SchemaNode<T = unknown, K extends SchemaNodeDef['kind'] = SchemaNodeDef['kind']> {
+  /** Type-level only: the validated type (see Infer). */
+  declare readonly __type: T;
+  private readonly node = true;
+  constructor(
+    readonly kind: K,
+    readonly def: SchemaNodeDef
+  ) {}
 }
 
-// ==========================
-// Canonical string comparisons (lowercase + no spaces)
-// ==========================
+type InferPrimitive<R> = R extends 'string' ? string : R extends 'number' ? number : R extends 'boolean' ? boolean : R extends 'object' ? Record<string, unknown> : R extends 'array' ? unknown[] : R extends 'date' ? Date : never;
+type OptionalKeys<S> = { [K in keyof S]: S[K] extends SchemaNode<any, 'optional'> ? K : never }[keyof S];
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
 
-/** Lowercases and removes all whitespace from a string (for canonical comparisons). */
-function canonicalizeString(s: string) {
-  return s.toLowerCase().replace(/\s+/g, '');
+/** Type of an object shape: keys with `s.optional` rules become optional properties. */
+export type InferShape<S> = Simplify<{ -readonly [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { -readonly [K in OptionalKeys<S>]?: Infer<S[K]> }>;
+
+/**
+ * The type a schema (or single rule) validates.
+ *
+ * @example
+ * const user = s.object({ name: 'string', tags: ['string'], role: s.literal('admin', 'user'), age: s.optional('number') });
+ * type User = Infer<typeof user>; // { name: string; tags: string[]; role: 'admin' | 'user'; age?: number | undefined }
+ */
+export type Infer<R> = R extends PrimitiveTypeName
+  ? InferPrimitive<R>
+  : R extends SchemaNode<infer T, any>
+    ? T
+    : R extends ChainValidator<infer T>
+      ? T
+    : R extends (x: unknown) => x is infer T
+      ? T
+      : R extends (x: unknown) => boolean
+        ? unknown
+        : R extends readonly [infer E]
+          ? Infer<E>[]
+          : R extends SimpleSchema
+            ? InferShape<R>
+            : never;
+
+/** Schema builders for nested, type-inferring schemas (use with assertMatchesSchema / Infer). */
+export const s = {
+  /** Key may be missing or undefined. */
+  optional: <const R extends SchemaRule>(rule: R): SchemaNode<Infer<R> | undefined, 'optional'> => new SchemaNode('optional', { kind: 'optional', rule }),
+  /** Value may be null. */
+  nullable: <const R extends SchemaRule>(rule: R): SchemaNode<Infer<R> | null, 'nullable'> => new SchemaNode('nullable', { kind: 'nullable', rule }),
+  /** Value must be one of the given literals (compared with Object.is). */
+  literal: <const L extends readonly SchemaLiteral[]>(...values: L): SchemaNode<L[number], 'literal'> => new SchemaNode('literal', { kind: 'literal', values }),
+  /** Value must match at least one of the rules. */
+  union: <const R extends readonly SchemaRule[]>(...rules: R): SchemaNode<Infer<R[number]>, 'union'> => new SchemaNode('union', { kind: 'union', rules }),
+  /** Object with the given shape (same as the plain shape, plus options; keeps literal types without `as const`). */
+  object: <const S extends SimpleSchema>(shape: S, options: { unknownKeys?: UnknownKeysMode } = {}): SchemaNode<InferShape<S>, 'object'> =>
+    new SchemaNode('object', { kind: 'object', shape, unknownKeys: options.unknownKeys }),
+  /** Array whose items all match rule (same as `[rule]`). */
+  array: <const R extends SchemaRule>(rule: R): SchemaNode<Infer<R>[], 'array'> => new SchemaNode('array', { kind: 'array', rule }),
+  /**
+   * Value used by `parse` when the key is missing or undefined (a function is called for a fresh
+   * value, e.g. `() => []`). Checks without parsing still require the value.
+   */
+  default: <const R extends SchemaRule>(rule: R, value: Infer<R> | (() => Infer<R>)): SchemaNode<Infer<R>, 'default'> => new SchemaNode('default', { kind: 'default', rule, value }),
+  /**
+   * Rule resolved on use, so a schema can refer to itself or to a schema defined later. Annotate
+   * the recursive schema with its type; `name` becomes its definition name in toJsonSchema.
+   *
+   * @example
+   * type Comment = { text: string; replies: Comment[] };
+   * const comment: SchemaNode<Comment> = s.object({ text: 'string', replies: [s.lazy(() => comment, 'Comment')] });
+   */
+  lazy: <R extends SchemaRule>(get: () => R, name?: string): SchemaNode<Infer<R>, 'lazy'> => new SchemaNode('lazy', { kind: 'lazy', get, name }),
+  /**
+   * Cross-field check on a value that matched rule (receives the typed value; the coerced copy in parse).
+   *
+   * @example
+   * const booking = s.refine(s.object({ start: 'date', end: 'date' }), (b, ctx) => {
+   *   ctx.at('end', () => assertDateAfter(b.end, b.start));
+   * });
+   */
+  refine: <const R extends SchemaRule>(rule: R, refinement: SchemaRefinement<Infer<R>>): SchemaNode<Infer<R>, 'refine'> => new SchemaNode('refine', { kind: 'refine', rule, refinement }),
+} as const;
+
+/** Short description of a rule for failure details, e.g. 'string', 'object', "'a' | 'b'". */
+function describeRule(rule: SchemaRule): string {
+  if (typeof rule === 'string') return rule;
+  if (isChainValidator(rule)) return chainValidators.get(rule)!.name ?? 'validator';
+  if (typeof rule === 'function') return rule.name || 'predicate';
+  if (Array.isArray(rule)) return `${describeRule(rule[0])}[]`;
+  if (rule instanceof SchemaNode) {
+    const def = rule.def;
+    switch (def.kind) {
+      case 'optional':
+        return `${describeRule(def.rule)} | undefined`;
+      case 'nullable':
+        return `${describeRule(def.rule)} | null`;
+      case 'literal':
+        return def.values.map((v) => (typeof v === 'string' ? `'${v}'` : String(v))).join(' | ');
+      case 'union':
+        return def.rules.map(describeRule).join(' | ');
+      case 'object':
+        return 'object';
+      case 'array':
+        return `${describeRule(def.rule)}[]`;
+      case 'default':
+        return describeRule(def.rule);
+      case 'lazy':
+        return def.name ?? 'lazy';
+      case 'refine':
+        return describeRule(def.rule);
+    }
+  }
+  return 'object';
+}
+
+function isPrimitiveOfType(type: PrimitiveTypeName, v: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof v === 'string';
+    case 'number':
+      return typeof v === 'number' && Number.isFinite(v);
+    case 'boolean':
+      return typeof v === 'boolean';
+    case 'object':
+      return typeof v === 'object' && v !== null && !Array.isArray(v);
+    case 'array':
+      return Array.isArray(v);
+    case 'date':
+      return v instanceof Date && !Number.isNaN(v.getTime());
+  }
 }
 
-/** Asserts that x (string) equals expected after canonicalization. */
-export function assertStringEqualsCanonical(x: unknown, expected: string, message?: string): asserts x is string {
-  assertString(x, message ?? `Expected string`);
-  const got = canonicalizeString(x as string);
-  const exp = canonicalizeString(expected);
-  assert(got === exp, message ?? `Expected canonical equality`);
+function joinKeyPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
 }
 
-/** Asserts that x (string) contains needle after canonicalization. */
-export function assertStringContainsCanonical(x: unknown, needle: string, message?: string): asserts x is string {
-  assertString(x, message ?? `Expected string`);
-  const got = canonicalizeString(x as string);
-  const ndl = canonicalizeString(needle);
-  assert(got.includes(ndl), message ?? `Expected canonical containment`);
+/** Prefix a failure's own path (e.g. 'zip' or '[0].qty') with the path it was checked at. */
+function joinFailurePath(path: string, sub: string | undefined): string {
+  if (!sub) return path;
+  if (!path) return sub;
+  return sub.startsWith('[') ? `${path}${sub}` : `${path}.${sub}`;
 }
 
-// ===============
-// Confirmation utility - returns boolean instead of throwing
-// ===============
+/** Returned by the schema checker for a value that failed (only observable in soft routes). */
+const SCHEMA_FAILED: unique symbol = Symbol('schema-failed');
 
 /**
- * Execute one or more assertion functions and return true if all pass, false if any fail.
- * This catches AssertError internally and returns a boolean result instead of throwing.
- * Useful for validation without interrupting program flow.
- *
- * @param assertions - One or more functions that perform assertions
- * @returns true if all assertions pass, false if any assertion fails
- *
- * @example
- * const isValid = confirm(
- *   () => assertString(value),
- *   () => assert(value.length > 0),
- *   () => assertStringContains(value, '@')
- * );
+ * Shared state of one schema check: the public assertion name, the caller's message, whether to
+ * build the output copy (expectSchema), whether to coerce values and fill defaults (parse), the
+ * unexpected key paths found by strict objects and the objects each lazy rule is checking.
  */
+type SchemaCheck = { assertion: string; message?: AssertMessage; output: boolean; parse: boolean; unknownKeys: string[]; lazy: Map<SchemaRule, Set<object>> };
+
+/** Plain decimal number literals: no hex, exponent, padding or empty string. */
+const DECIMAL_LITERAL = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)$/;
+
 /**
- * Executes one or more assertions and returns true when all pass; returns false when any
- * assertion throws AssertError. Non-AssertError exceptions are rethrown.
- *
- * Narrowing:
- * - This utility is non-throwing, so it does not provide compile-time narrowing; use
- *   `onConfirmed(...).run(cb)` or the typed chain for narrowing inside the callback.
+ * Coerce a string from a query string, form post or env var to the primitive type:
+ * "42" -> 42, "true"/"1" -> true, "false"/"0" -> false, ISO string -> Date.
+ * Returns SCHEMA_FAILED if the value cannot be read as that type.
  */
-export function confirm(...assertions: (() => void)[]): boolean {
-  try {
-    for (const assertion of assertions) {
-      assertion();
-    }
-    return true;
-  } catch (e) {
-    if (e instanceof AssertError) {
-      return false;
+function coercePrimitive(type: PrimitiveTypeName, v: unknown): unknown {
+  if (typeof v !== 'string') return SCHEMA_FAILED;
+  switch (type) {
+    case 'number': {
+      const n = DECIMAL_LITERAL.test(v) ? Number(v) : NaN;
+      return Number.isFinite(n) ? n : SCHEMA_FAILED;
     }
-    // Re-throw non-assertion errors
-    throw e;
+    case 'boolean':
+      return v === 'true' || v === '1' ? true : v === 'false' || v === '0' ? false : SCHEMA_FAILED;
+    case 'date':
+      try {
+        return throwingAssertions(() => DateEnsure(v, undefined, ['ISO']));
+      } catch (e) {
+        if (!(e instanceof AssertError)) throw e;
+        return SCHEMA_FAILED;
+      }
+    default:
+      return SCHEMA_FAILED;
   }
 }
 
-/** Like confirm(), but returns error detail of the first failing assertion */
-/** Like confirm(), but returns the first AssertError encountered for diagnostics. */
-export function confirmWithError(...assertions: (() => void)[]): { ok: true } | { ok: false; error: AssertError } {
-  try {
-    for (const assertion of assertions) assertion();
-    return { ok: true } as const;
-  } catch (e) {
-    if (e instanceof AssertError) return { ok: false, error: e } as const;
-    throw e;
-  }
+/** Fail once for all unexpected keys collected by strict objects. */
+function reportUnknownKeys(check: SchemaCheck): boolean {
+  const keys = check.unknownKeys;
+  if (!keys.length) return true;
+  fail({ code: 'OBJECT_UNKNOWN_KEYS', assertion: check.assertion, expected: 'no unknown keys', actual: keys, path: keys[0] }, check.message, { keys: [...keys] });
+  return false;
 }
 
-/** Run all assertions and aggregate all AssertErrors (continues after failures) */
-/** Runs all assertions and aggregates all AssertErrors (continues after failures). */
-export function confirmAll(...assertions: (() => void)[]): { ok: boolean; errors: AssertError[] } {
-  const errors: AssertError[] = [];
-  for (const assertion of assertions) {
+/**
+ * Check value against rule at path and return the value (a copy with stripped keys when
+ * `check.output` is set). Returns SCHEMA_FAILED after a recorded failure (soft routes), so
+ * callers stop descending into a value that already failed; in normal mode failures throw.
+ */
+function checkSchemaRule(rule: SchemaRule, v: unknown, path: string, check: SchemaCheck): unknown {
+  const { assertion, message } = check;
+  if (typeof rule === 'string') {
+    if (isPrimitiveOfType(rule, v)) return v;
+    const coerced = check.parse ? coercePrimitive(rule, v) : SCHEMA_FAILED;
+    if (coerced !== SCHEMA_FAILED) return coerced;
+    fail({ code: TYPE_FAILURE_CODES[rule], assertion, expected: rule, actual: v, path: path || undefined }, message);
+    return SCHEMA_FAILED;
+  }
+  if (isChainValidator(rule)) {
     try {
-      assertion();
+      return silentAssertions(() => rule.parse(v));
     } catch (e) {
-      if (e instanceof AssertError) {
-        errors.push(e);
-      } else {
-        throw e;
-      }
+      if (!(e instanceof AssertError)) throw e;
+      // reported once, with the full path; sub-chain failures carry their unprefixed message
+      const failurePath = joinFailurePath(path, e.path) || undefined;
+      raise(repathFailure(e, failurePath, nestedSchemaMessage(check, subChainFailures.get(e)?.message ?? e.message, failurePath)));
+      return SCHEMA_FAILED;
+    }
+  }
+  if (typeof rule === 'function') {
+    if (rule(v)) return v;
+    fail({ code: 'SCHEMA_PREDICATE_FAILED', assertion, expected: rule.name || 'predicate', actual: v, path: path || undefined }, message);
+    return SCHEMA_FAILED;
+  }
+  if (Array.isArray(rule)) return checkSchemaArray(rule[0], v, path, check);
+  if (rule instanceof SchemaNode) {
+    const def = rule.def;
+    switch (def.kind) {
+      case 'optional':
+        return v === undefined ? v : checkSchemaRule(def.rule, v, path, check);
+      case 'nullable':
+        return v === null ? v : checkSchemaRule(def.rule, v, path, check);
+      case 'literal': {
+        if (def.values.some((lit) => Object.is(lit, v))) return v;
+        // parse: "1" / "true" select the number or boolean literal they spell
+        const spelled = check.parse && typeof v === 'string' ? def.values.find((lit) => typeof lit !== 'string' && String(lit) === v) : undefined;
+        if (spelled !== undefined) return spelled;
+        fail({ code: 'NOT_ONE_OF', assertion, expected: def.values, actual: v, path: path || undefined }, message);
+        return SCHEMA_FAILED;
+      }
+      case 'union': {
+        const errors: AssertError[] = [];
+        for (const branch of def.rules) {
+          // each branch reports its own unknown keys, so a strict branch with extra keys does not match
+          const sub: SchemaCheck = { ...check, unknownKeys: [] };
+          try {
+            // branches are trials: only the final UNION_NO_MATCH reaches the handlers
+            return silentAssertions(() => {
+              const out = checkSchemaRule(branch, v, path, sub);
+              reportUnknownKeys(sub);
+              return out;
+            });
+          } catch (e) {
+            if (!(e instanceof AssertError)) throw e;
+            errors.push(e);
+          }
+        }
+        fail({ code: 'UNION_NO_MATCH', assertion, expected: describeRule(rule), actual: v, path: path || undefined }, message, { errors });
+        return SCHEMA_FAILED;
+      }
+      case 'object':
+        return checkSchemaObject(def.shape, def.unknownKeys ?? 'passthrough', v, path, check);
+      case 'array':
+        return checkSchemaArray(def.rule, v, path, check);
+      case 'default':
+        if (check.parse && v === undefined) return typeof def.value === 'function' ? def.value() : def.value;
+        return checkSchemaRule(def.rule, v, path, check);
+      case 'refine': {
+        const value = checkSchemaRule(def.rule, v, path, check);
+        if (value === SCHEMA_FAILED) return value;
+        return runRefinement(def.refinement, value, path, check) ? value : SCHEMA_FAILED;
+      }
+      case 'lazy': {
+        if (typeof v !== 'object' || v === null) return checkSchemaRule(def.get(), v, path, check);
+        // cyclic input: an object already being checked against this rule further up passes here
+        let active = check.lazy.get(rule);
+        if (!active) check.lazy.set(rule, (active = new Set()));
+        if (active.has(v)) return v;
+        active.add(v);
+        try {
+          return checkSchemaRule(def.get(), v, path, check);
+        } finally {
+          active.delete(v);
+        }
+      }
+    }
+  }
+  return checkSchemaObject(rule as SimpleSchema, 'passthrough', v, path, check);
+}
+
+/**
+ * Run a refinement and report its failures at path (joined with `ctx.at` paths and the failure's
+ * own path). The refinement itself runs with throwing assertions; its failures are reported
+ * afterwards, so soft routes and parse record each `ctx.at` failure.
+ */
+function runRefinement(refinement: SchemaRefinement<unknown>, value: unknown, path: string, check: SchemaCheck): boolean {
+  const failures: [AssertError, string][] = [];
+  const ctx: RefineContext = {
+    at(key, fn) {
+      try {
+        throwingAssertions(fn);
+      } catch (e) {
+        if (!(e instanceof AssertError)) throw e;
+        failures.push([e, joinKeyPath(path, key)]);
+      }
+    },
+  };
+  let result: boolean | void = undefined;
+  try {
+    result = throwingAssertions(() => refinement(value, ctx));
+  } catch (e) {
+    if (!(e instanceof AssertError)) throw e;
+    failures.push([e, path]);
+  }
+  // each failure already reached the handlers when the refinement's assertion failed
+  for (const [e, at] of failures) {
+    const failurePath = joinFailurePath(at, e.path) || undefined;
+    refail(repathFailure(e, failurePath, nestedSchemaMessage(check, e.message, failurePath)));
+  }
+  const rejected = result === false;
+  if (rejected) fail({ code: 'SCHEMA_PREDICATE_FAILED', assertion: check.assertion, expected: refinement.name || 'refinement', actual: value, path: path || undefined }, check.message);
+  return !failures.length && !rejected;
+}
+
+/** Whether a refinement passes, without reporting anything (compiled validators). */
+function refinementPasses(refinement: SchemaRefinement<unknown>, value: unknown): boolean {
+  try {
+    return throwingAssertions(() => refinement(value, { at: (_path, fn) => fn() })) !== false;
+  } catch (e) {
+    if (e instanceof AssertError) return false;
+    throw e;
+  }
+}
+
+function checkSchemaObject(shape: SimpleSchema, unknownKeys: UnknownKeysMode, v: unknown, path: string, check: SchemaCheck): unknown {
+  if (!isObject(v)) {
+    fail({ code: 'NOT_OBJECT', assertion: check.assertion, expected: 'object', actual: v, path: path || undefined }, check.message);
+    return SCHEMA_FAILED;
+  }
+  if (unknownKeys === 'strict') {
+    // own keys only: '__proto__', 'constructor', 'toString', ... are unknown unless the shape declares them
+    for (const key of Object.keys(v)) if (!Object.prototype.hasOwnProperty.call(shape, key)) check.unknownKeys.push(joinKeyPath(path, key));
+  }
+  let failed = false;
+  const out: Record<string, unknown> | undefined = check.output ? {} : undefined;
+  for (const key of Object.keys(shape)) {
+    // an inherited property (e.g. 'constructor') is a missing key, not a value to check
+    const own = Object.prototype.hasOwnProperty.call(v, key);
+    const value = checkSchemaRule(shape[key], own ? v[key] : undefined, joinKeyPath(path, key), check);
+    if (value === SCHEMA_FAILED) failed = true;
+    else if (out && (own || value !== undefined)) Object.defineProperty(out, key, { value, enumerable: true, writable: true, configurable: true });
+  }
+  if (out && unknownKeys === 'passthrough') {
+    for (const key of Object.keys(v)) {
+      // defineProperty: a copied own '__proto__' key must stay data, not replace the copy's prototype
+      if (!Object.prototype.hasOwnProperty.call(shape, key)) Object.defineProperty(out, key, { value: v[key], enumerable: true, writable: true, configurable: true });
+    }
+  }
+  return failed ? SCHEMA_FAILED : (out ?? v);
+}
+
+function checkSchemaArray(rule: SchemaRule, v: unknown, path: string, check: SchemaCheck): unknown {
+  if (!Array.isArray(v)) {
+    fail({ code: 'NOT_ARRAY', assertion: check.assertion, expected: 'array', actual: v, path: path || undefined }, check.message);
+    return SCHEMA_FAILED;
+  }
+  let failed = false;
+  const out: unknown[] | undefined = check.output ? [] : undefined;
+  for (let i = 0; i < v.length; i++) {
+    const item = checkSchemaRule(rule, v[i], `${path}[${i}]`, check);
+    if (item === SCHEMA_FAILED) failed = true;
+    else out?.push(item);
+  }
+  return failed ? SCHEMA_FAILED : (out ?? v);
+}
+
+/**
+ * Default schema failure message: the code's message prefixed with the field path, as sub-chains
+ * do (`age: Expected number`). Templates showing `{path}` themselves and the unknown-key list of
+ * full paths stay as they are.
+ */
+function schemaPathMessage(failure: AssertFailure): string {
+  const template = defaultMessage(failure.code);
+  const text = renderMessage(template, failure);
+  if (!failure.path || failure.code === 'OBJECT_UNKNOWN_KEYS' || (typeof template === 'string' && template.includes('{path}'))) return text;
+  return `${failure.path}: ${text}`;
+}
+
+/** Message for a nested failure re-reported at path: the caller's message, or the nested one prefixed with path. */
+function nestedSchemaMessage(check: SchemaCheck, nested: string, path: string | undefined): AssertMessage | undefined {
+  if (check.message !== schemaPathMessage) return check.message;
+  const text = path ? `${path}: ${nested}` : nested;
+  return () => text;
+}
+
+/** Run a full schema check; returns the checked value (or SCHEMA_FAILED in soft routes). */
+function runSchemaCheck(schema: SchemaRule, x: unknown, assertion: string, message: AssertMessage | undefined, output: boolean, parse = false): unknown {
+  const check: SchemaCheck = { assertion, message: message ?? schemaPathMessage, output, parse, unknownKeys: [], lazy: new Map() };
+  const value = checkSchemaRule(schema, x, '', check);
+  return reportUnknownKeys(check) ? value : SCHEMA_FAILED;
+}
+
+/**
+ * Asserts that `x` matches the schema and narrows it to the inferred type. The schema is an
+ * object shape (or any `s` node); failures carry the full dotted path of the field, e.g.
+ * `address.zip` or `items[2].sku`. Strict objects (`s.object(shape, { unknownKeys: 'strict' })`)
+ * fail with OBJECT_UNKNOWN_KEYS listing every unexpected key path.
+ *
+ * @example
+ * const order = s.object({
+ *   id: 'string',
+ *   status: s.literal('open', 'paid'),
+ *   customer: { name: 'string', email: s.nullable('string') },
+ *   items: [{ sku: 'string', qty: 'number' }],
+ *   note: s.optional('string'),
+ * });
+ * assertMatchesSchema(body, order);
+ * body.items[0].qty; // number
+ */
+export function assertMatchesSchema<const S extends SimpleSchema | SchemaNode<any>>(x: unknown, schema: S, message?: AssertMessage): asserts x is Infer<S> {
+  runSchemaCheck(schema, x, 'assertMatchesSchema', message, false);
+}
+
+/**
+ * Ensures `x` matches the schema and returns a copy typed as the inferred shape. Objects with
+ * `unknownKeys: 'strip'` lose keys not in their shape; other objects keep them.
+ *
+ * @example
+ * const input = s.object({ name: 'string', email: 'string' }, { unknownKeys: 'strip' });
+ * const clean = expectSchema(req.body, input); // { name, email } without over-posted fields
+ */
+export function expectSchema<const S extends SimpleSchema | SchemaNode<any>>(x: unknown, schema: S, message?: AssertMessage): Infer<S> {
+  return runSchemaCheck(schema, x, 'expectSchema', message, true) as Infer<S>;
+}
+
+/** Boolean form of assertMatchesSchema: type guard for the inferred type. */
+export function matchesSchema<const S extends SimpleSchema | SchemaNode<any>>(x: unknown, schema: S): x is Infer<S> {
+  try {
+    throwingAssertions(() => runSchemaCheck(schema, x, 'matchesSchema', undefined, false));
+    return true;
+  } catch (e) {
+    if (e instanceof AssertError) return false;
+    throw e;
+  }
+}
+
+/**
+ * Parses untyped input (query strings, form posts, env vars) into a new, fully typed value:
+ * strings are coerced to the schema's numbers, booleans, dates (ISO, via DateEnsure) and
+ * number/boolean literals, and `s.default` fills missing keys. Every problem is collected first;
+ * the single PARSE_FAILED error lists the failing paths in `actual` and the individual failures
+ * in `info.errors`.
+ *
+ * @example
+ * const query = s.object({ page: s.default('number', 1), active: s.optional('boolean'), since: s.optional('date') });
+ * parse(query, { active: 'true', since: '2024-05-01T00:00:00Z' }); // { page: 1, active: true, since: Date }
+ */
+export function parse<const S extends SimpleSchema | SchemaNode<any>>(schema: S, input: unknown, message?: AssertMessage): Infer<S> {
+  const errors: AssertError[] = [];
+  let value: unknown;
+  try {
+    // field failures are collected into the single PARSE_FAILED below, which alone reaches the handlers
+    value = withoutHandlers(() => collectAssertions(errors, () => runSchemaCheck(schema, input, 'parse', undefined, true, true)));
+  } catch (e) {
+    if (!(e instanceof AssertError)) throw e;
+  }
+  if (!errors.length) return value as Infer<S>;
+  const paths = [...new Set(errors.map((e) => e.path ?? ''))];
+  return fail({ code: 'PARSE_FAILED', assertion: 'parse', expected: describeRule(schema), actual: paths, path: errors[0].path }, message, { errors });
+}
+
+/** Keys declared by an object rule: a plain shape or `s.object` (through wrappers, lazy rules and unions). */
+function schemaRuleKeys(rule: SchemaRule): string[] {
+  if (!(rule instanceof SchemaNode)) return isObject(rule) ? Object.keys(rule) : [];
+  const def = rule.def;
+  switch (def.kind) {
+    case 'object':
+      return Object.keys(def.shape);
+    case 'union':
+      return [...new Set(def.rules.flatMap(schemaRuleKeys))];
+    case 'lazy':
+      return schemaRuleKeys(def.get());
+    case 'optional':
+    case 'nullable':
+    case 'default':
+    case 'refine':
+      return schemaRuleKeys(def.rule);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Asserts that object `x` has no keys besides the allowed ones (a key list, an `s.object` schema
+ * or a plain shape/object whose keys are allowed). Fails with OBJECT_UNKNOWN_KEYS listing every extra key.
+ */
+export function assertNoExtraKeys(x: unknown, allowed: readonly string[] | SchemaNode | Record<string, unknown>, message?: AssertMessage): asserts x is Record<string, unknown> {
+  if (!isObject(x)) return failType('assertNoExtraKeys', 'object', x, message);
+  const keys = Array.isArray(allowed) ? allowed : allowed instanceof SchemaNode ? schemaRuleKeys(allowed) : Object.keys(allowed);
+  const extra = Object.keys(x).filter((k) => !keys.includes(k));
+  if (extra.length) return fail({ code: 'OBJECT_UNKNOWN_KEYS', assertion: 'assertNoExtraKeys', expected: keys, actual: extra, path: extra[0] }, message, { keys: extra });
+}
+
+// ==========================
+// Compiled schema validators
+// ==========================
+
+/**
+ * Validator built by compileSchema. Call it like assertMatchesSchema (annotate the variable with
+ * `CompiledSchema<T>` to narrow) or use `is` as a type guard; `mode` tells whether code
+ * generation was available or the interpreter is used.
+ */
+export type CompiledSchema<T> = {
+  (x: unknown, message?: AssertMessage): asserts x is T;
+  /** Type guard, same result as matchesSchema. */
+  readonly is: (x: unknown) => x is T;
+  readonly mode: 'codegen' | 'interpreter';
+};
+
+/**
+ * Code generation state: values the generated code reads (`refs[i]`), helper functions, variable
+ * counter and the helper generated for each lazy rule.
+ */
+type SchemaCodegen = { refs: unknown[]; helpers: string[]; vars: number; lazy: Map<SchemaRule, string> };
+
+function codegenRef(gen: SchemaCodegen, value: unknown): string {
+  gen.refs.push(value);
+  return `refs[${gen.refs.length - 1}]`;
+}
+
+function codegenVar(gen: SchemaCodegen): string {
+  return `v${++gen.vars}`;
+}
+
+/** JS expression for isPrimitiveOfType(type, v). */
+function primitiveTestSource(type: PrimitiveTypeName, v: string): string {
+  switch (type) {
+    case 'string':
+    case 'boolean':
+      return `typeof ${v} === '${type}'`;
+    case 'number':
+      return `typeof ${v} === 'number' && Number.isFinite(${v})`;
+    case 'object':
+      return `typeof ${v} === 'object' && ${v} !== null && !Array.isArray(${v})`;
+    case 'array':
+      return `Array.isArray(${v})`;
+    case 'date':
+      return `${v} instanceof Date && !Number.isNaN(${v}.getTime())`;
+  }
+}
+
+/** JS expression for Object.is(v, lit). */
+function literalTestSource(v: string, lit: SchemaLiteral): string {
+  if (typeof lit === 'number') return `Object.is(${v}, ${Object.is(lit, -0) ? '-0' : String(lit)})`;
+  return `${v} === ${lit === undefined ? 'undefined' : JSON.stringify(lit)}`;
+}
+
+/**
+ * Statements that `return false` when the value in variable `v` does not match rule. Accepts and
+ * rejects exactly what checkSchemaRule does in check mode.
+ */
+function schemaRuleSource(rule: SchemaRule, v: string, gen: SchemaCodegen): string {
+  if (typeof rule === 'string') return `if (!(${primitiveTestSource(rule, v)})) return false;`;
+  if (typeof rule === 'function') return `if (!${codegenRef(gen, isChainValidator(rule) ? rule.is : rule)}(${v})) return false;`;
+  if (Array.isArray(rule)) return schemaArraySource(rule[0], v, gen);
+  if (rule instanceof SchemaNode) {
+    const def = rule.def;
+    switch (def.kind) {
+      case 'optional':
+        return `if (${v} !== undefined) { ${schemaRuleSource(def.rule, v, gen)} }`;
+      case 'nullable':
+        return `if (${v} !== null) { ${schemaRuleSource(def.rule, v, gen)} }`;
+      case 'literal':
+        return `if (!(${def.values.map((lit) => literalTestSource(v, lit)).join(' || ') || 'false'})) return false;`;
+      case 'union':
+        return `if (!(${def.rules.map((branch) => `${schemaHelperSource(branch, gen)}(${v})`).join(' || ') || 'false'})) return false;`;
+      case 'object':
+        return schemaObjectSource(def.shape, def.unknownKeys ?? 'passthrough', v, gen);
+      case 'array':
+        return schemaArraySource(def.rule, v, gen);
+      case 'default':
+        return schemaRuleSource(def.rule, v, gen);
+      case 'lazy':
+        return `if (!${schemaLazySource(rule, def.get, gen)}(${v})) return false;`;
+      case 'refine': {
+        const refinement = def.refinement;
+        return `${schemaRuleSource(def.rule, v, gen)} if (!${codegenRef(gen, (x: unknown) => refinementPasses(refinement, x))}(${v})) return false;`;
+      }
+    }
+  }
+  return schemaObjectSource(rule as SimpleSchema, 'passthrough', v, gen);
+}
+
+/** Emit a helper function `checkN(v0): boolean` for rule (used for union branches). */
+function schemaHelperSource(rule: SchemaRule, gen: SchemaCodegen): string {
+  // reserve the slot first: nested unions add their own helpers while this body is generated
+  const index = gen.helpers.push('') - 1;
+  gen.helpers[index] = `function check${index}(v0) { ${schemaRuleSource(rule, 'v0', gen)} return true; }`;
+  return `check${index}`;
+}
+
+/** Helper function for a lazy rule (one per rule, so recursion calls it), cycle-safe like checkSchemaRule. */
+function schemaLazySource(rule: SchemaRule, get: () => SchemaRule, gen: SchemaCodegen): string {
+  const existing = gen.lazy.get(rule);
+  if (existing) return existing;
+  const index = gen.helpers.push('') - 1;
+  gen.lazy.set(rule, `check${index}`);
+  const active = codegenRef(gen, new Set<object>());
+  const target = schemaHelperSource(get(), gen);
+  gen.helpers[index] = `function check${index}(v0) {
+    if (typeof v0 !== 'object' || v0 === null) return ${target}(v0);
+    if (${active}.has(v0)) return true;
+    ${active}.add(v0);
+    try { return ${target}(v0); } finally { ${active}.delete(v0); }
+  }`;
+  return `check${index}`;
+}
+
+function schemaObjectSource(shape: SimpleSchema, unknownKeys: UnknownKeysMode, v: string, gen: SchemaCodegen): string {
+  let src = `if (!(${primitiveTestSource('object', v)})) return false;`;
+  // own-key tests like checkSchemaObject: inherited names such as '__proto__' are unknown keys and missing values
+  const hasOwn = codegenRef(gen, Object.prototype.hasOwnProperty);
+  if (unknownKeys === 'strict') src += ` for (const k of Object.keys(${v})) if (!${hasOwn}.call(${codegenRef(gen, shape)}, k)) return false;`;
+  for (const key of Object.keys(shape)) {
+    const item = codegenVar(gen);
+    src += ` { const ${item} = ${hasOwn}.call(${v}, ${JSON.stringify(key)}) ? ${v}[${JSON.stringify(key)}] : undefined; ${schemaRuleSource(shape[key], item, gen)} }`;
+  }
+  return src;
+}
+
+function schemaArraySource(rule: SchemaRule, v: string, gen: SchemaCodegen): string {
+  const i = codegenVar(gen);
+  const item = codegenVar(gen);
+  return `if (!Array.isArray(${v})) return false; for (let ${i} = 0; ${i} < ${v}.length; ${i}++) { const ${item} = ${v}[${i}]; ${schemaRuleSource(rule, item, gen)} }`;
+}
+
+/** Generate the boolean test for a schema, or undefined when `new Function` is blocked (CSP). */
+function generateSchemaTest(schema: SchemaRule): ((x: unknown) => boolean) | undefined {
+  const gen: SchemaCodegen = { refs: [], helpers: [], vars: 0, lazy: new Map() };
+  const body = schemaRuleSource(schema, 'v0', gen);
+  try {
+    return new Function('refs', `${gen.helpers.join('\n')}\nreturn function test(v0) { ${body} return true; };`)(gen.refs);
+  } catch (e) {
+    // CSP without 'unsafe-eval' (or node --disallow-code-generation-from-strings) throws EvalError
+    if (e instanceof EvalError) return undefined;
+    throw e;
+  }
+}
+
+/**
+ * Compiles a schema once into a specialized validator for hot paths (queues, high-volume APIs).
+ * Code generation produces a flat test without per-key interpretation; a rejected value is checked
+ * again by the interpreter, so failures (code, path, message, soft routes) are identical to
+ * assertMatchesSchema. Where `new Function` is blocked the validator falls back to the interpreter.
+ *
+ * @example
+ * const assertOrder: CompiledSchema<Infer<typeof order>> = compileSchema(order);
+ * assertOrder(msg); // msg: Order
+ * messages.filter(assertOrder.is);
+ */
+export function compileSchema<const S extends SimpleSchema | SchemaNode<any>>(schema: S): CompiledSchema<Infer<S>> {
+  const test = generateSchemaTest(schema);
+  const check = (x: unknown, message?: AssertMessage) => {
+    if (!test?.(x)) runSchemaCheck(schema, x, 'compileSchema', message, false);
+  };
+  const is = (x: unknown): x is Infer<S> => (test ? test(x) : matchesSchema(x, schema));
+  return Object.assign(check, { is, mode: test ? ('codegen' as const) : ('interpreter' as const) });
+}
+
+// ==========================
+// Discriminated unions: assertDiscriminant, assertNever, match
+// ==========================
+
+/** Schema per tag value, for assertDiscriminant. */
+export type DiscriminantSchemas = { readonly [tag: string]: SimpleSchema | SchemaNode<any> };
+
+/** The union assertDiscriminant narrows to: each schema's type with the tag key fixed to its tag. */
+export type InferDiscriminated<K extends string, M extends DiscriminantSchemas> = { [T in keyof M & string]: Simplify<Omit<Infer<M[T]>, K> & { [P in K]: T }> }[keyof M & string];
+
+/**
+ * Asserts that `x` is a tagged object: `x[key]` selects the schema to check the rest against,
+ * and `x` narrows to the matching union member. An unknown tag fails with NOT_ONE_OF at `key`;
+ * a strict schema must list the tag key itself.
+ *
+ * @example
+ * assertDiscriminant(event, 'type', {
+ *   created: { id: 'string' },
+ *   moved: { id: 'string', to: 'string' },
+ * });
+ * if (event.type === 'moved') event.to; // string
+ */
+export function assertDiscriminant<K extends string, const M extends DiscriminantSchemas>(x: unknown, key: K, schemas: M, message?: AssertMessage): asserts x is InferDiscriminated<K, M> {
+  if (!isObject(x)) return failType('assertDiscriminant', 'object', x, message);
+  const tag = x[key];
+  if (typeof tag !== 'string' || !Object.prototype.hasOwnProperty.call(schemas, tag)) {
+    return fail({ code: 'NOT_ONE_OF', assertion: 'assertDiscriminant', expected: Object.keys(schemas), actual: tag, path: key }, message);
+  }
+  runSchemaCheck(schemas[tag], x, 'assertDiscriminant', message, false);
+}
+
+/**
+ * Exhaustiveness check: only compiles when every case was handled (x is `never`), and fails with
+ * UNHANDLED_CASE when an unexpected value shows up at runtime anyway.
+ *
+ * @example
+ * switch (shape.kind) {
+ *   case 'circle': return ...;
+ *   case 'square': return ...;
+ *   default: return assertNever(shape.kind);
+ * }
+ */
+export function assertNever(x: never, message?: AssertMessage): never {
+  return fail({ code: 'UNHANDLED_CASE', assertion: 'assertNever', expected: 'never', actual: x }, message);
+}
+
+/** One handler per tag of T[K], each receiving the narrowed union member. */
+export type MatchHandlers<T, K extends keyof T> = { [P in Extract<T[K], string | number>]: (value: Extract<T, { [Q in K]: P }>) => unknown };
+
+/**
+ * Exhaustive match on a tagged union: calls the handler for `value[key]` and returns its result.
+ * A missing handler, or one for a tag the union does not have, is a compile-time error; an unknown
+ * tag at runtime fails with UNHANDLED_CASE.
+ *
+ * @example
+ * const area = match(shape, 'kind', {
+ *   circle: (c) => Math.PI * c.r ** 2,
+ *   square: (s) => s.size ** 2,
+ * });
+ */
+export function match<T, K extends keyof T, H extends MatchHandlers<T, K>>(
+  value: T,
+  key: K,
+  handlers: H,
+  // rejects handlers for tags the union does not have (a generic H allows extra keys)
+  ..._unknownTags: [Exclude<keyof H, keyof MatchHandlers<T, K>>] extends [never] ? [] : [never]
+): ReturnType<H[keyof H]> {
+  const tag = (value as Record<PropertyKey, unknown>)[key];
+  const handler = (typeof tag === 'string' || typeof tag === 'number') && Object.prototype.hasOwnProperty.call(handlers, tag) ? (handlers as Record<PropertyKey, unknown>)[tag] : undefined;
+  if (typeof handler !== 'function') {
+    return fail({ code: 'UNHANDLED_CASE', assertion: 'match', expected: Object.keys(handlers), actual: tag, path: String(key) });
+  }
+  return handler(value) as ReturnType<H[keyof H]>;
+}
+
+// ==========================
+// JSON Schema import (draft 2020-12 subset)
+// ==========================
+
+/** Type names of the JSON Schema `type` keyword. */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * A JSON Schema document or subschema. `true` accepts everything, `false` nothing.
+ * Supported keywords: type, properties, required, additionalProperties, items, prefixItems,
+ * enum, const, anyOf, oneOf, allOf, minimum, maximum, exclusiveMinimum, exclusiveMaximum,
+ * minLength, maxLength, pattern and `$ref` within the document ($defs / definitions).
+ * Other keywords (title, format, ...) are ignored.
+ */
+export type JsonSchema =
+  | boolean
+  | {
+      $ref?: string;
+      $defs?: Record<string, JsonSchema>;
+      definitions?: Record<string, JsonSchema>;
+      type?: JsonSchemaType | readonly JsonSchemaType[];
+      properties?: Record<string, JsonSchema>;
+      required?: readonly string[];
+      additionalProperties?: JsonSchema;
+      items?: JsonSchema;
+      prefixItems?: readonly JsonSchema[];
+      enum?: readonly unknown[];
+      const?: unknown;
+      anyOf?: readonly JsonSchema[];
+      oneOf?: readonly JsonSchema[];
+      allOf?: readonly JsonSchema[];
+      minimum?: number;
+      maximum?: number;
+      exclusiveMinimum?: number;
+      exclusiveMaximum?: number;
+      minLength?: number;
+      maxLength?: number;
+      pattern?: string;
+      [keyword: string]: unknown;
+    };
+
+/** Assertion function produced by fromJsonSchema; annotate the variable to use it for narrowing. */
+export type JsonSchemaAssertion<T = unknown> = (x: unknown, message?: AssertMessage) => asserts x is T;
+
+/** Compiled (sub)schema: records failures at the JSON Pointer path, returns false if any. */
+type JsonSchemaValidator = (v: unknown, path: string, message: AssertMessage | undefined) => boolean;
+
+const JSON_SCHEMA_ASSERTION = 'fromJsonSchema';
+
+function isJsonType(type: JsonSchemaType, v: unknown): boolean {
+  switch (type) {
+    case 'null':
+      return v === null;
+    case 'integer':
+      return typeof v === 'number' && Number.isInteger(v);
+    case 'number':
+      return typeof v === 'number' && Number.isFinite(v);
+    case 'string':
+      return typeof v === 'string';
+    case 'boolean':
+      return typeof v === 'boolean';
+    case 'array':
+      return Array.isArray(v);
+    case 'object':
+      return isObject(v);
+  }
+}
+
+function jsonTypeFailureCode(type: JsonSchemaType, v: unknown): AssertErrorCode {
+  if (type === 'null') return 'NOT_NULL';
+  if (type === 'integer') return typeof v === 'number' && Number.isFinite(v) ? 'NUMBER_NOT_INTEGER' : 'NOT_NUMBER';
+  return TYPE_FAILURE_CODES[type];
+}
+
+/** Append one reference token to a JSON Pointer ('' is the document root). */
+function joinJsonPointer(path: string, token: string | number): string {
+  return `${path}/${String(token).replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
+
+/** Resolve a `$ref` within the document: '#' or a JSON Pointer fragment like '#/$defs/user'. */
+function resolveJsonSchemaRef(root: JsonSchema, ref: string): JsonSchema {
+  assert(ref.startsWith('#'), `Unsupported $ref "${ref}": only references within the document are supported`);
+  let target: unknown = root;
+  for (const token of ref.slice(1).split('/').slice(1)) {
+    const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~');
+    target = target !== null && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined;
+  }
+  assert(typeof target === 'boolean' || isObject(target), `Unresolvable $ref "${ref}"`);
+  return target as JsonSchema;
+}
+
+/** Short description of a subschema for failure details, e.g. 'string | null' or '#/$defs/user'. */
+function describeJsonSchema(schema: JsonSchema): string {
+  if (typeof schema === 'boolean') return String(schema);
+  if (schema.type !== undefined) return Array.isArray(schema.type) ? schema.type.join(' | ') : String(schema.type);
+  if (schema.$ref !== undefined) return schema.$ref;
+  if (schema.enum !== undefined) return schema.enum.map((v) => JSON.stringify(v)).join(' | ');
+  if ('const' in schema) return JSON.stringify(schema.const);
+  return 'schema';
+}
+
+/**
+ * Run a subschema without recording or notifying anything (an anyOf/oneOf branch is a trial);
+ * returns the failure that rejected the value, if any.
+ */
+function jsonSchemaBranchError(validate: JsonSchemaValidator, v: unknown, path: string, message: AssertMessage | undefined): AssertError | undefined {
+  try {
+    silentAssertions(() => validate(v, path, message));
+    return undefined;
+  } catch (e) {
+    if (!(e instanceof AssertError)) throw e;
+    return e;
+  }
+}
+
+/**
+ * Compile a (sub)schema into a validator. Every schema object compiles once (cached by identity,
+ * before its keywords), so a `$ref` back into a schema being compiled reuses it and recursion works.
+ */
+function compileJsonSchema(schema: JsonSchema, root: JsonSchema, cache: Map<object, JsonSchemaValidator>): JsonSchemaValidator {
+  if (schema === true) return () => true;
+  if (schema === false) {
+    return (v, path, message) => {
+      fail({ code: 'SCHEMA_PREDICATE_FAILED', assertion: JSON_SCHEMA_ASSERTION, expected: false, actual: v, path: path || undefined }, message);
+      return false;
+    };
+  }
+  const cached = cache.get(schema);
+  if (cached) return cached;
+  const keywords: JsonSchemaValidator[] = [];
+  const validate: JsonSchemaValidator = (v, path, message) => {
+    let ok = true;
+    for (const keyword of keywords) {
+      if (!keyword(v, path, message)) {
+        ok = false;
+        // a value of the wrong type is not checked any further
+        if (keyword === keywords[0] && schema.type !== undefined) break;
+      }
+    }
+    return ok;
+  };
+  cache.set(schema, validate);
+  const sub = (s: JsonSchema) => compileJsonSchema(s, root, cache);
+  const at = (path: string) => path || undefined;
+
+  if (schema.type !== undefined) {
+    const types: readonly JsonSchemaType[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    keywords.push((v, path, message) => {
+      if (types.some((t) => isJsonType(t, v))) return true;
+      const code = types.length === 1 ? jsonTypeFailureCode(types[0], v) : 'UNION_NO_MATCH';
+      fail({ code, assertion: JSON_SCHEMA_ASSERTION, expected: types.join(' | '), actual: v, path: at(path) }, message);
+      return false;
+    });
+  }
+  if (schema.$ref !== undefined) {
+    keywords.push(sub(resolveJsonSchemaRef(root, schema.$ref)));
+  }
+  if (schema.enum !== undefined) {
+    const values = schema.enum;
+    keywords.push((v, path, message) => {
+      if (values.some((e) => deepEqual(e, v))) return true;
+      fail({ code: 'NOT_ONE_OF', assertion: JSON_SCHEMA_ASSERTION, expected: values, actual: v, path: at(path) }, message);
+      return false;
+    });
+  }
+  if ('const' in schema) {
+    const expected = schema.const;
+    keywords.push((v, path, message) => {
+      if (deepEqual(expected, v)) return true;
+      fail({ code: 'NOT_EQUAL', assertion: JSON_SCHEMA_ASSERTION, expected, actual: v, path: at(path) }, message);
+      return false;
+    });
+  }
+
+  // numbers
+  const bounds: [number | undefined, AssertErrorCode, (v: number, bound: number) => boolean][] = [
+    [schema.minimum, 'NUMBER_NOT_GREATER_OR_EQUAL', (v, b) => v >= b],
+    [schema.maximum, 'NUMBER_NOT_LESS_OR_EQUAL', (v, b) => v <= b],
+    [schema.exclusiveMinimum, 'NUMBER_NOT_GREATER', (v, b) => v > b],
+    [schema.exclusiveMaximum, 'NUMBER_NOT_LESS', (v, b) => v < b],
+  ];
+  for (const [bound, code, within] of bounds) {
+    if (bound === undefined) continue;
+    keywords.push((v, path, message) => {
+      if (typeof v !== 'number' || within(v, bound)) return true;
+      fail({ code, assertion: JSON_SCHEMA_ASSERTION, expected: bound, actual: v, path: at(path) }, message);
+      return false;
+    });
+  }
+
+  // strings (lengths count code points, as the spec requires)
+  const { minLength, maxLength } = schema;
+  if (minLength !== undefined || maxLength !== undefined) {
+    keywords.push((v, path, message) => {
+      if (typeof v !== 'string') return true;
+      const length = [...v].length;
+      if (minLength !== undefined && length < minLength) {
+        fail({ code: 'STRING_TOO_SHORT', assertion: JSON_SCHEMA_ASSERTION, expected: minLength, actual: v, path: at(path) }, message);
+        return false;
+      }
+      if (maxLength !== undefined && length > maxLength) {
+        fail({ code: 'STRING_TOO_LONG', assertion: JSON_SCHEMA_ASSERTION, expected: maxLength, actual: v, path: at(path) }, message);
+        return false;
+      }
+      return true;
+    });
+  }
+  if (schema.pattern !== undefined) {
+    const source = schema.pattern;
+    const re = new RegExp(source, 'u');
+    keywords.push((v, path, message) => {
+      if (typeof v !== 'string' || re.test(v)) return true;
+      fail({ code: 'STRING_PATTERN_MISMATCH', assertion: JSON_SCHEMA_ASSERTION, expected: source, actual: v, path: at(path) }, message);
+      return false;
+    });
+  }
+
+  // objects
+  const properties = Object.entries(schema.properties ?? {}).map(([key, s]) => [key, sub(s)] as const);
+  const required = schema.required ?? [];
+  const additional = schema.additionalProperties;
+  if (properties.length || required.length || additional !== undefined) {
+    const known = new Set(properties.map(([key]) => key));
+    const validateAdditional = additional === undefined || additional === false ? undefined : sub(additional);
+    keywords.push((v, path, message) => {
+      if (!isObject(v)) return true;
+      let ok = true;
+      // JSON Schema keywords look at own properties only: `required: ['toString']` does not accept {}
+      for (const key of required) {
+        if (Object.prototype.hasOwnProperty.call(v, key)) continue;
+        fail({ code: 'OBJECT_MISSING_KEY', assertion: JSON_SCHEMA_ASSERTION, expected: key, actual: v, path: joinJsonPointer(path, key) }, message);
+        ok = false;
+      }
+      for (const [key, validateProperty] of properties) {
+        if (Object.prototype.hasOwnProperty.call(v, key) && !validateProperty(v[key], joinJsonPointer(path, key), message)) ok = false;
+      }
+      const extra = Object.keys(v).filter((key) => !known.has(key));
+      if (additional === false && extra.length) {
+        const keys = extra.map((key) => joinJsonPointer(path, key));
+        fail({ code: 'OBJECT_UNKNOWN_KEYS', assertion: JSON_SCHEMA_ASSERTION, expected: [...known], actual: keys, path: keys[0] }, message, { keys });
+        ok = false;
+      } else if (validateAdditional) {
+        for (const key of extra) if (!validateAdditional(v[key], joinJsonPointer(path, key), message)) ok = false;
+      }
+      return ok;
+    });
+  }
+
+  // arrays
+  const prefixItems = (schema.prefixItems ?? []).map(sub);
+  const validateItems = schema.items === undefined ? undefined : sub(schema.items);
+  if (prefixItems.length || validateItems) {
+    keywords.push((v, path, message) => {
+      if (!Array.isArray(v)) return true;
+      let ok = true;
+      for (let i = 0; i < v.length; i++) {
+        const validateItem = i < prefixItems.length ? prefixItems[i] : validateItems;
+        if (validateItem && !validateItem(v[i], joinJsonPointer(path, i), message)) ok = false;
+      }
+      return ok;
+    });
+  }
+
+  // combinators
+  for (const s of schema.allOf ?? []) keywords.push(sub(s));
+  if (schema.anyOf !== undefined) {
+    const branches = schema.anyOf.map(sub);
+    const expected = schema.anyOf.map(describeJsonSchema).join(' | ');
+    keywords.push((v, path, message) => {
+      const errors: AssertError[] = [];
+      for (const branch of branches) {
+        const error = jsonSchemaBranchError(branch, v, path, message);
+        if (!error) return true;
+        errors.push(error);
+      }
+      fail({ code: 'UNION_NO_MATCH', assertion: JSON_SCHEMA_ASSERTION, expected, actual: v, path: at(path) }, message, { errors });
+      return false;
+    });
+  }
+  if (schema.oneOf !== undefined) {
+    const branches = schema.oneOf.map(sub);
+    const expected = schema.oneOf.map(describeJsonSchema).join(' | ');
+    keywords.push((v, path, message) => {
+      const errors: AssertError[] = [];
+      const matches: number[] = [];
+      branches.forEach((branch, i) => {
+        const error = jsonSchemaBranchError(branch, v, path, message);
+        if (error) errors.push(error);
+        else matches.push(i);
+      });
+      if (matches.length === 1) return true;
+      if (matches.length === 0) fail({ code: 'UNION_NO_MATCH', assertion: JSON_SCHEMA_ASSERTION, expected, actual: v, path: at(path) }, message, { errors });
+      else fail({ code: 'UNION_MULTIPLE_MATCH', assertion: JSON_SCHEMA_ASSERTION, expected, actual: v, path: at(path) }, message, { matches });
+      return false;
+    });
+  }
+  return validate;
+}
+
+/**
+ * Compiles a JSON Schema document (draft 2020-12 subset, see JsonSchema) into an assertion
+ * function. Failures are regular AssertErrors with the usual codes and a JSON Pointer `path`
+ * (e.g. `/items/0/name`), so routes, handlers and soft routes treat them like any assertion.
+ * Unsupported or unresolvable `$ref`s fail when the schema is compiled.
+ *
+ * @example
+ * const assertUser: JsonSchemaAssertion<User> = fromJsonSchema<User>(userSchemaJson);
+ * assertUser(body); // body: User
+ */
+export function fromJsonSchema<T = unknown>(doc: JsonSchema): JsonSchemaAssertion<T> {
+  const validate = throwingAssertions(() => compileJsonSchema(doc, doc, new Map()));
+  return (x, message) => {
+    validate(x, '', message);
+  };
+}
+
+// ==========================
+// JSON Schema / OpenAPI export
+// ==========================
+
+/** A JSON Schema object (the non-boolean form of JsonSchema), as emitted by toJsonSchema. */
+export type JsonSchemaObject = Exclude<JsonSchema, boolean>;
+
+/** Dialect written by toJsonSchema. */
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/** Whether a missing key passes the rule (such keys are left out of `required`). */
+function acceptsUndefined(rule: SchemaRule): boolean {
+  if (!(rule instanceof SchemaNode)) return false;
+  const def = rule.def;
+  switch (def.kind) {
+    case 'optional':
+      return true;
+    case 'nullable':
+      return acceptsUndefined(def.rule);
+    case 'literal':
+      return def.values.includes(undefined);
+    case 'default':
+      return true;
+    case 'union':
+      return def.rules.some(acceptsUndefined);
+    case 'lazy':
+      return acceptsUndefined(def.get());
+    case 'refine':
+      return acceptsUndefined(def.rule);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Export state: the OpenAPI 3.0 dialect (`nullable: true` instead of a 'null' type), where
+ * `$ref`s point, and the named definitions emitted for lazy rules.
+ */
+type SchemaExport = { openapi30: boolean; refPrefix: string; defs: Record<string, JsonSchemaObject>; names: Map<SchemaRule, string> };
+
+/**
+ * Translate a schema rule into a JSON Schema object. Predicates cannot be expressed, so they
+ * accept anything and carry their name in `x-assertroute-predicate` (refinements likewise in
+ * `x-assertroute-refinement`). Lazy rules become a `$ref`
+ * to a named definition, so recursive schemas export as recursive documents.
+ */
+function exportSchemaRule(rule: SchemaRule, ctx: SchemaExport): JsonSchemaObject {
+  if (typeof rule === 'string') {
+    // Dates travel as ISO strings in JSON documents
+    return rule === 'date' ? { type: 'string', format: 'date-time' } : { type: rule };
+  }
+  if (isChainValidator(rule)) {
+    const schema = chainValidators.get(rule)!.schema;
+    return ctx.openapi30 ? openApi30Keywords(schema) : { ...schema };
+  }
+  if (typeof rule === 'function') return { 'x-assertroute-predicate': rule.name || 'predicate' };
+  if (Array.isArray(rule)) return { type: 'array', items: exportSchemaRule(rule[0], ctx) };
+  if (rule instanceof SchemaNode) {
+    const def = rule.def;
+    switch (def.kind) {
+      case 'optional':
+        return exportSchemaRule(def.rule, ctx);
+      case 'nullable': {
+        const inner = exportSchemaRule(def.rule, ctx);
+        // OpenAPI 3.0 ignores keywords next to $ref, so a nullable reference goes through allOf
+        if (ctx.openapi30) return inner.$ref === undefined ? { ...inner, nullable: true } : { allOf: [inner], nullable: true };
+        if (typeof inner.type === 'string') return { ...inner, type: [inner.type, 'null'] };
+        if (inner.anyOf && Object.keys(inner).length === 1) return { anyOf: [...inner.anyOf, { type: 'null' }] };
+        return { anyOf: [inner, { type: 'null' }] };
+      }
+      case 'literal': {
+        const values = def.values.filter((v) => v !== undefined);
+        return ctx.openapi30 && values.includes(null) ? { enum: values, nullable: true } : { enum: values };
+      }
+      case 'union':
+        return { anyOf: def.rules.map((r) => exportSchemaRule(r, ctx)) };
+      case 'object':
+        return exportSchemaShape(def.shape, def.unknownKeys ?? 'passthrough', ctx);
+      case 'array':
+        return { type: 'array', items: exportSchemaRule(def.rule, ctx) };
+      case 'default': {
+        const inner = exportSchemaRule(def.rule, ctx);
+        return typeof def.value === 'function' ? inner : { ...inner, default: def.value };
+      }
+      case 'lazy': {
+        let name = ctx.names.get(rule);
+        if (name === undefined) {
+          // register the name before exporting the target, so recursion ends in a $ref
+          name = def.name ?? `Schema${ctx.names.size + 1}`;
+          ctx.names.set(rule, name);
+          ctx.defs[name] = exportSchemaRule(def.get(), ctx);
+        }
+        return { $ref: `${ctx.refPrefix}${name}` };
+      }
+      case 'refine':
+        return { ...exportSchemaRule(def.rule, ctx), 'x-assertroute-refinement': def.refinement.name || 'refinement' };
+    }
+  }
+  return exportSchemaShape(rule as SimpleSchema, 'passthrough', ctx);
+}
+
+/** A validator's JSON Schema in OpenAPI 3.0 terms: `enum` for `const`, boolean exclusive bounds. */
+function openApi30Keywords(schema: JsonSchemaObject): JsonSchemaObject {
+  const { const: value, exclusiveMinimum, exclusiveMaximum, allOf, ...rest } = schema;
+  const out: Record<string, unknown> = { ...rest };
+  if ('const' in schema) out.enum = [value];
+  if (exclusiveMinimum !== undefined && !(rest.minimum !== undefined && rest.minimum > exclusiveMinimum)) Object.assign(out, { minimum: exclusiveMinimum, exclusiveMinimum: true });
+  if (exclusiveMaximum !== undefined && !(rest.maximum !== undefined && rest.maximum < exclusiveMaximum)) Object.assign(out, { maximum: exclusiveMaximum, exclusiveMaximum: true });
+  if (allOf) out.allOf = allOf.map((part) => (typeof part === 'boolean' ? part : openApi30Keywords(part)));
+  return out as JsonSchemaObject;
+}
+
+function exportSchemaShape(shape: SimpleSchema, unknownKeys: UnknownKeysMode, ctx: SchemaExport): JsonSchemaObject {
+  const properties: Record<string, JsonSchema> = {};
+  for (const key of Object.keys(shape)) properties[key] = exportSchemaRule(shape[key], ctx);
+  const required = Object.keys(shape).filter((key) => !acceptsUndefined(shape[key]));
+  return { type: 'object', properties, ...(required.length ? { required } : {}), ...(unknownKeys === 'strict' ? { additionalProperties: false } : {}) };
+}
+
+/**
+ * Emits a JSON Schema (draft 2020-12) document for a schema, so published contracts come from
+ * the same source as assertMatchesSchema. `s.optional` keys are left out of `required`, strict
+ * objects get `additionalProperties: false`, dates become `{ type: 'string', format: 'date-time' }`,
+ * predicate rules are marked with `x-assertroute-predicate` and `s.lazy` rules become `$defs`.
+ *
+ * @example
+ * toJsonSchema(s.object({ id: 'string', note: s.optional('string') }));
+ * // { $schema: '...', type: 'object', properties: { id: { type: 'string' }, note: { type: 'string' } }, required: ['id'] }
+ */
+export function toJsonSchema(schema: SimpleSchema | SchemaNode<any>): JsonSchemaObject {
+  const ctx: SchemaExport = { openapi30: false, refPrefix: '#/$defs/', defs: {}, names: new Map() };
+  const root = exportSchemaRule(schema, ctx);
+  return { $schema: JSON_SCHEMA_DIALECT, ...root, ...(ctx.names.size ? { $defs: ctx.defs } : {}) };
+}
+
+/**
+ * Emits a schema as an OpenAPI component (`components.schemas.<Name>`). OpenAPI 3.1 (default)
+ * uses JSON Schema as is; with `{ version: '3.0' }` nullable rules become `nullable: true`.
+ * Schemas with `s.lazy` rules need `options.components` (usually `spec.components.schemas`):
+ * their named definitions are added there and referenced as `#/components/schemas/<name>`.
+ *
+ * @example
+ * const schemas = {};
+ * schemas.Order = toOpenApiComponent(order, { components: schemas });
+ * const spec = { openapi: '3.1.0', components: { schemas } };
+ */
+export function toOpenApiComponent(schema: SimpleSchema | SchemaNode<any>, options: { version?: '3.0' | '3.1'; components?: Record<string, JsonSchemaObject> } = {}): JsonSchemaObject {
+  const ctx: SchemaExport = { openapi30: options.version === '3.0', refPrefix: '#/components/schemas/', defs: options.components ?? {}, names: new Map() };
+  const component = exportSchemaRule(schema, ctx);
+  assert(options.components || !ctx.names.size, 'Schemas with s.lazy rules need options.components to receive their named definitions');
+  return component;
+}
+
+// ==========================
+// Canonical string comparisons (lowercase + no spaces)
+// ==========================
+
+/** Lowercases and removes all whitespace from a string (for canonical comparisons). */
+function canonicalizeString(s: string) {
+  return s.toLowerCase().replace(/\s+/g, '');
+}
+
+/** Asserts that x (string) equals expected after canonicalization. */
+export function assertStringEqualsCanonical(x: unknown, expected: string, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertStringEqualsCanonical', 'string', x, message);
+  const got = canonicalizeString(x);
+  const exp = canonicalizeString(expected);
+  if (got !== exp) return fail({ code: 'STRING_NOT_EQUAL', assertion: 'assertStringEqualsCanonical', expected, actual: x }, message);
+}
+
+/** Asserts that x (string) contains needle after canonicalization. */
+export function assertStringContainsCanonical(x: unknown, needle: string, message?: AssertMessage): asserts x is string {
+  if (!isString(x)) return failType('assertStringContainsCanonical', 'string', x, message);
+  const got = canonicalizeString(x);
+  const ndl = canonicalizeString(needle);
+  if (!got.includes(ndl)) return fail({ code: 'STRING_NOT_CONTAINS', assertion: 'assertStringContainsCanonical', expected: needle, actual: x }, message);
+}
+
+// ===============
+// Confirmation utility - returns boolean instead of throwing
+// ===============
+
+/**
+ * Execute one or more assertion functions and return true if all pass, false if any fail.
+ * This catches AssertError internally and returns a boolean result instead of throwing.
+ * Useful for validation without interrupting program flow.
+ *
+ * @param assertions - One or more functions that perform assertions
+ * @returns true if all assertions pass, false if any assertion fails
+ *
+ * @example
+ * const isValid = confirm(
+ *   () => assertString(value),
+ *   () => assert(value.length > 0),
+ *   () => assertStringContains(value, '@')
+ * );
+ */
+/**
+ * Executes one or more assertions and returns true when all pass; returns false when any
+ * assertion throws AssertError. Non-AssertError exceptions are rethrown.
+ *
+ * Narrowing:
+ * - This utility is non-throwing, so it does not provide compile-time narrowing; use
+ *   `onConfirmed(...).run(cb)` or the typed chain for narrowing inside the callback.
+ */
+export function confirm(...assertions: (() => void)[]): boolean {
+  try {
+    for (const assertion of assertions) {
+      throwingAssertions(assertion);
+    }
+    return true;
+  } catch (e) {
+    if (e instanceof AssertError) {
+      return false;
+    }
+    // Re-throw non-assertion errors
+    throw e;
+  }
+}
+
+/** Like confirm(), but returns error detail of the first failing assertion */
+/** Like confirm(), but returns the first AssertError encountered for diagnostics. */
+export function confirmWithError(...assertions: (() => void)[]): { ok: true } | { ok: false; error: AssertError } {
+  try {
+    for (const assertion of assertions) throwingAssertions(assertion);
+    return { ok: true } as const;
+  } catch (e) {
+    if (e instanceof AssertError) return { ok: false, error: e } as const;
+    throw e;
+  }
+}
+
+/** Run all assertions and aggregate all AssertErrors (continues after failures) */
+/** Runs all assertions and aggregates all AssertErrors (continues after failures). */
+export function confirmAll(...assertions: (() => void)[]): { ok: boolean; errors: AssertError[] } {
+  const errors: AssertError[] = [];
+  for (const assertion of assertions) {
+    try {
+      throwingAssertions(assertion);
+    } catch (e) {
+      if (e instanceof AssertError) {
+        errors.push(e);
+      } else {
+        throw e;
+      }
     }
   }
   return { ok: errors.length === 0, errors };
@@ -1964,27 +4310,30 @@ export type Guard<V, V2 extends V = V> = (x: V) => asserts x is V2;
  * onValue(x).check(assertDefined).check(assertString).run(s => s.toUpperCase())
  */
 export class NarrowingBuilder<V> {
-  private guards: Array<Guard<any, any>> = [];
+  /** Steps in order: guards return their input, transforms return the replacement value. */
+  private steps: Array<(v: any) => unknown>;
   constructor(private value: V, initialGuards: Array<Guard<any, any>> = []) {
-    this.guards = [...initialGuards];
+    this.steps = initialGuards.map(guardStep);
   }
 
   /** Add a guard that narrows V to V2 */
   /** Add a guard; returns a new builder typed to the narrowed V2. */
   check<V2 extends V>(guard: Guard<V, V2>): NarrowingBuilder<V2> {
     // We store the guard and return a new builder typed to V2
-    const next = new NarrowingBuilder<V2>(this.value as unknown as V2, [...this.guards, guard]);
-    return next;
+    return this.next<V2>([...this.steps, guardStep(guard)]);
+  }
+
+  /** Add a step that replaces the value with fn(value); later guards and run() see the result. */
+  transform<W>(fn: (v: V) => W): NarrowingBuilder<W> {
+    return this.next<W>([...this.steps, fn]);
   }
 
   /** Execute callback if all guards pass; returns undefined on failure */
   /** Execute fn if all guards pass; returns undefined if an AssertError occurs. */
   run<T>(fn: (v: V) => T): T | undefined {
-    let v: any = this.value;
     try {
-      for (const g of this.guards) g(v);
-      // At this point, TS knows v is V (narrowed by type-level check() chaining)
-      return fn(v as V);
+      // At this point, TS knows the value is V (narrowed by type-level check() chaining)
+      return throwingAssertions(() => fn(this.apply(this.value)));
     } catch (e) {
       if (e instanceof AssertError) return undefined;
       throw e;
@@ -1997,6 +4346,145 @@ export class NarrowingBuilder<V> {
     const r = this.run(fn);
     return r === undefined ? fallback : r;
   }
+
+  /** Pass when the steps so far pass or any of the given guards does; narrows to their union. */
+  or<const G extends readonly Guard<any, any>[]>(...guards: G): NarrowingBuilder<V | Guarded<G[number]>> {
+    const branches = [(x: unknown) => this.apply(x), ...guards.map(guardStep)];
+    return this.next([(x) => firstPassingBranch(x, branches, ['chain', ...guards.map(guardName)], 'or')]);
+  }
+
+  /** Let undefined pass the steps so far. */
+  optional(): NarrowingBuilder<V | undefined> {
+    return this.next([(x) => (x === undefined ? x : this.apply(x))]);
+  }
+
+  /** Run all steps now and return the narrowed (and transformed) value; throws the first AssertError. */
+  assert(): V {
+    return throwingAssertions(() => this.apply(this.value));
+  }
+
+  /** The steps as a reusable validator for other values (the builder's own value is not used); see ChainValidator for name. */
+  build(name?: string): ChainValidator<V> {
+    return chainValidator(this.steps.slice(), name);
+  }
+
+  private next<W>(steps: Array<(v: any) => unknown>): NarrowingBuilder<W> {
+    const next = new NarrowingBuilder<W>(this.value as unknown as W);
+    next.steps = steps;
+    return next;
+  }
+
+  private apply(value: unknown): V {
+    let v = value;
+    for (const step of this.steps) v = step(v);
+    return v as V;
+  }
+}
+
+/**
+ * Reusable validator built from chain steps (see define): an assertion function, also usable as a
+ * Guard and as a schema rule, with `is` as type predicate and `parse` for the transformed value.
+ * With transform steps the call form and `is` only check the input; use `parse` to get the result.
+ * Its name is the one given to build(), if any (`Function.name` otherwise stays 'validator').
+ */
+export type ChainValidator<T> = {
+  (x: unknown, message?: AssertMessage): asserts x is T;
+  readonly is: (x: unknown) => x is T;
+  readonly parse: (x: unknown, message?: AssertMessage) => T;
+};
+
+/**
+ * Functions created by chainValidator, so schema checks can tell them from boolean predicates:
+ * the name given to build() and the JSON Schema of the values the steps accept.
+ */
+const chainValidators = new WeakMap<Function, { name?: string; schema: JsonSchemaObject }>();
+
+/** JSON Schema of the values a chain step accepts (registry assertions, see assertionJsonSchemas). */
+const stepJsonSchemas = new WeakMap<Function, JsonSchemaObject>();
+
+/** Steps made by guardStep: they pass the value on unchanged, unlike transforms. */
+const guardSteps = new WeakSet<Function>();
+
+function isChainValidator(x: unknown): x is ChainValidator<unknown> {
+  return typeof x === 'function' && chainValidators.has(x);
+}
+
+/**
+ * JSON Schema for a validator's steps: the keywords of every exportable step, merged. Steps after
+ * a transform see another value, so they are left out; whatever is left out is named in
+ * `x-assertroute-predicate`.
+ */
+function chainJsonSchema(steps: ReadonlyArray<(v: any) => unknown>, name: string | undefined): JsonSchemaObject {
+  const parts: JsonSchemaObject[] = [];
+  let complete = true;
+  for (const step of steps) {
+    const part = stepJsonSchemas.get(step);
+    if (part) parts.push(part);
+    else complete = false;
+    if (!part && !guardSteps.has(step)) break;
+  }
+  const schema = mergeJsonSchemas(parts);
+  return complete ? schema : { ...schema, 'x-assertroute-predicate': name ?? 'validator' };
+}
+
+/** Combine schemas that must all hold: keywords are merged, conflicting ones go to allOf. */
+function mergeJsonSchemas(parts: readonly JsonSchemaObject[]): JsonSchemaObject {
+  const out: JsonSchemaObject = {};
+  const rest: JsonSchemaObject[] = [];
+  for (const part of parts) {
+    const next = { ...part };
+    // an integer is also a number
+    if (out.type === 'integer' && next.type === 'number') delete next.type;
+    if (out.type === 'number' && next.type === 'integer') out.type = 'integer';
+    const conflict = Object.keys(next).some((key) => key in out && JSON.stringify(out[key]) !== JSON.stringify(next[key]));
+    if (conflict) rest.push(part);
+    else Object.assign(out, next);
+  }
+  return rest.length ? { ...out, allOf: rest } : out;
+}
+
+function chainValidator<T>(steps: ReadonlyArray<(v: any) => unknown>, name?: string): ChainValidator<T> {
+  const apply = (x: unknown): T => {
+    let v = x;
+    for (const step of steps) v = step(v);
+    return v as T;
+  };
+  const parse = (x: unknown, message?: AssertMessage): T => {
+    try {
+      return throwingAssertions(() => apply(x));
+    } catch (e) {
+      if (!(e instanceof AssertError)) throw e;
+      // the failing step already reached the handlers
+      return refail(message === undefined ? e : repathFailure(e, e.path, message));
+    }
+  };
+  const validator = (x: unknown, message?: AssertMessage): void => {
+    parse(x, message);
+  };
+  const is = (x: unknown): x is T => {
+    try {
+      throwingAssertions(() => apply(x));
+      return true;
+    } catch (e) {
+      if (e instanceof AssertError) return false;
+      throw e;
+    }
+  };
+  if (name !== undefined) Object.defineProperty(validator, 'name', { value: name });
+  chainValidators.set(validator, { name, schema: chainJsonSchema(steps, name) });
+  return Object.assign(validator, { is, parse }) as ChainValidator<T>;
+}
+
+/** A guard as a builder step: check the value and pass it on unchanged. */
+function guardStep(guard: Guard<any, any>): (v: unknown) => unknown {
+  const step = (v: unknown) => {
+    guard(v);
+    return v;
+  };
+  guardSteps.add(step);
+  const schema = stepJsonSchemas.get(guard) ?? chainValidators.get(guard)?.schema;
+  if (schema) stepJsonSchemas.set(step, schema);
+  return step;
 }
 
 /** Start a typed narrowing chain */
@@ -2020,13 +4508,334 @@ export function onConfirmedWith(value: any, ...guards: Array<Guard<any, any>>):
   return new NarrowingBuilder<any>(value, guards);
 }
 
+// ===============
+// Guard combinators
+// ===============
+
+/** The type a guard narrows to, e.g. `Guarded<typeof assertString>` is `string`. */
+export type Guarded<G> = G extends (x: any) => asserts x is infer N ? N : never;
+
+type GuardIntersection<G extends readonly unknown[]> = G extends readonly [infer H, ...infer R] ? Guarded<H> & GuardIntersection<R> : unknown;
+
+/** Name of a guard for failure details: the function name, or 'guard' for anonymous ones. */
+function guardName(guard: Guard<any, any>): string {
+  return guard.name || 'guard';
+}
+
+/**
+ * Guard that passes when any of the guards passes (`or(assertString, assertNumber)`: string | number).
+ * On failure (UNION_NO_MATCH) the message lists why each branch failed; `info.errors` holds the branch errors.
+ */
+export function or<const G extends readonly Guard<any, any>[]>(...guards: G): Guard<unknown, Guarded<G[number]>> {
+  return (x: unknown): asserts x is Guarded<G[number]> => {
+    firstPassingBranch(x, guards.map(guardStep), guards.map(guardName), 'or');
+  };
+}
+
+/** Result of the first branch that passes for x; otherwise fail UNION_NO_MATCH listing each branch's failure. */
+function firstPassingBranch(x: unknown, branches: ReadonlyArray<(x: unknown) => unknown>, names: readonly string[], assertion: string): unknown {
+  const errors: AssertError[] = [];
+  for (const branch of branches) {
+    try {
+      return silentAssertions(() => branch(x));
+    } catch (e) {
+      if (!(e instanceof AssertError)) throw e;
+      errors.push(e);
+    }
+  }
+  const expected = errors.map((e, i) => (e.expected === undefined ? names[i] : formatMessageValue(e.expected))).join(' | ');
+  const message = (failure: AssertFailure) => `${renderMessage(defaultMessage('UNION_NO_MATCH'), failure)} (${errors.map((e) => e.message).join('; ')})`;
+  return fail({ code: 'UNION_NO_MATCH', assertion, expected, actual: x }, message, { errors });
+}
+
+/** Guard that runs all guards in order and narrows to the intersection of their types. */
+export function and<const G extends readonly Guard<any, any>[]>(...guards: G): Guard<unknown, GuardIntersection<G>> {
+  return (x: unknown): asserts x is GuardIntersection<G> => {
+    for (const guard of guards) guard(x);
+  };
+}
+
+/** Guard that passes when guard fails, e.g. `not(assertNull)`; narrows the checked type by excluding the guarded one. */
+export function not<N>(guard: Guard<any, N>, message?: AssertMessage): <V>(x: V) => asserts x is Exclude<V, N> {
+  return <V>(x: V): asserts x is Exclude<V, N> => {
+    try {
+      silentAssertions(() => guard(x));
+    } catch (e) {
+      if (e instanceof AssertError) return;
+      throw e;
+    }
+    fail({ code: 'GUARD_MATCHED', assertion: 'not', expected: guardName(guard), actual: x }, message);
+  };
+}
+
+/** Guard that accepts undefined, and otherwise applies guard. */
+export function optional<N>(guard: Guard<any, N>): Guard<unknown, N | undefined> {
+  return (x: unknown): asserts x is N | undefined => {
+    if (x !== undefined) guard(x);
+  };
+}
+
+/** Guard that accepts null, and otherwise applies guard. */
+export function nullable<N>(guard: Guard<any, N>): Guard<unknown, N | null> {
+  return (x: unknown): asserts x is N | null => {
+    if (x !== null) guard(x);
+  };
+}
+
+// ===============
+// Assertion registry (source of the chain methods and the vouch facade)
+// ===============
+
+/**
+ * Every standalone assertion that checks its first argument. AssertChain gets one method per
+ * entry, named without the `assert` prefix (`assertNumberBetween` -> `.numberBetween(min, max)`),
+ * with the same extra arguments and narrowing; the vouch facade exposes every entry by name.
+ * Add new assertions here so chain, standalone function and facade stay in sync.
+ */
+const chainedAssertions = {
+  // types
+  assertString,
+  assertNumber,
+  assertBoolean,
+  assertArray,
+  assertObject,
+  assertDate,
+  assertFunction,
+  assertPromiseLike,
+  assertTrue,
+  assertFalse,
+  assertNull,
+  assertUndefined,
+  // strings
+  assertNonEmptyString,
+  assertNonEmptyStringStrict,
+  assertStringTrimmedNotEmpty,
+  assertStringLength,
+  assertStringLengthAtLeast,
+  assertStringLengthAtMost,
+  assertStringLengthBetween,
+  assertStringContains,
+  assertStringStartsWith,
+  assertStringEndsWith,
+  assertStringMatches,
+  assertStringEqualsIgnoreCase,
+  assertStringEqualsCanonical,
+  assertStringContainsCanonical,
+  assertStringIncludesAny,
+  assertStringIncludesAll,
+  assertStringIsJSON,
+  // numbers
+  assertNonZeroNumber,
+  assertNumberNotZero,
+  assertNumberGreaterThan,
+  assertNumberGreaterOrEqual,
+  assertNumberLessThan,
+  assertNumberLessOrEqual,
+  assertNumberBetween,
+  assertNumberPositive,
+  assertNumberNonNegative,
+  assertNumberNegative,
+  assertNumberNonPositive,
+  assertNumberInteger,
+  assertNumberSafeInteger,
+  assertNumberApproxEquals,
+  // arrays
+  assertArrayNotEmpty,
+  assertNonEmptyArray,
+  assertArrayLength,
+  assertArrayHasAnyOf,
+  assertArrayHasEveryOf,
+  assertArrayItemIsBoolean,
+  assertArrayItemIsString,
+  assertArrayItemIsNumber,
+  assertArrayItemIsObject,
+  assertArrayIncludesString,
+  assertArrayIncludesNumber,
+  assertArrayIncludesObject,
+  assertArrayIncludesCondition,
+  assertArrayOnlyHasObjects,
+  assertArrayOnlyHasStrings,
+  assertArrayOnlyHasNumbers,
+  assertArrayEveryIsFalsy,
+  assertArrayEveryIsTruthy,
+  assertArrayUnique,
+  assertObjectArrayAllHaveKey,
+  assertObjectArrayEveryHasKeys,
+  // objects
+  assertNonEmptyRecord,
+  assertNonEmptyRecordStrict,
+  assertSameKeys,
+  assertAllKeysFalsy,
+  assertAllKeysSet,
+  assertAnyKeyNull,
+  assertSubset,
+  assertHasPath,
+  assertNoExtraKeys,
+  // equality
+  assertEquals,
+  assertNotEquals,
+  assertDeepEquals,
+  // dates
+  assertDateEarlier,
+  assertDateLater,
+  assertDateBefore,
+  assertDateAfter,
+  assertDateOnOrBefore,
+  assertDateOnOrAfter,
+  assertDateBetween,
+  assertDateBetweenInclusive,
+  assertDateBetweenExclusive,
+  assertDateInPast,
+  assertDateInFuture,
+  assertDateWithinPast,
+  assertDateWithinFuture,
+  assertDateSameYear,
+  assertDateSameMonth,
+  assertDateSameDay,
+  assertDateYear,
+  assertDateFormat,
+  // DOM
+  assertElement,
+  assertElementHasChildren,
+  assertElementHasChild,
+  assertElementHasChildMatching,
+  assertElementHasDescendant,
+  assertElementHasAttribute,
+  assertElementAttributeEquals,
+  assertElementHidden,
+  assertElementVisible,
+} as const;
+
+/**
+ * Assertions whose narrowing depends on their arguments (keys, constructor, schema, ...). A
+ * mapped type would lose their generics, so AssertChain declares these methods by hand; they
+ * are part of the facade like the rest.
+ */
+const genericAssertions = {
+  assertDefined,
+  assertNonNull,
+  assertPresent,
+  assertExists,
+  assertTruthy,
+  assertInstanceOf,
+  assertHasKey,
+  assertHasKeys,
+  assertKeyEquals,
+  assertOneOfPrimitive,
+  assertMapHasKey,
+  assertSetHasValue,
+  assertMatchesSchema,
+  assertDiscriminant,
+} as const;
+
+/** All registered assertions by name (spread into the vouch facade). */
+const assertionRegistry = { ...chainedAssertions, ...genericAssertions } as const;
+
+/** Short chain names for common checks: alias -> generated chain method. */
+const chainAliases = {
+  isString: 'string',
+  isNumber: 'number',
+  isBoolean: 'boolean',
+  isArray: 'array',
+  isObject: 'object',
+  isDate: 'date',
+  isNonEmptyString: 'nonEmptyString',
+  isNonEmptyArray: 'nonEmptyArray',
+  between: 'numberBetween',
+  positive: 'numberPositive',
+  negative: 'numberNegative',
+  nonNegative: 'numberNonNegative',
+  integer: 'numberInteger',
+  greaterThan: 'numberGreaterThan',
+  lessThan: 'numberLessThan',
+  matches: 'stringMatches',
+  startsWith: 'stringStartsWith',
+  endsWith: 'stringEndsWith',
+  unique: 'arrayUnique',
+} as const;
+
+/**
+ * JSON Schema of the values a chained assertion accepts, from its arguments, so built validators
+ * export their steps. Assertions missing here (or returning undefined) have no JSON Schema equivalent.
+ */
+const assertionJsonSchemas = new Map<Function, (...args: any[]) => JsonSchemaObject | undefined>([
+  [assertString, () => ({ type: 'string' })],
+  [assertNumber, () => ({ type: 'number' })],
+  [assertBoolean, () => ({ type: 'boolean' })],
+  [assertArray, () => ({ type: 'array' })],
+  [assertObject, () => ({ type: 'object' })],
+  // Dates travel as ISO strings in JSON documents
+  [assertDate, () => ({ type: 'string', format: 'date-time' })],
+  [assertTrue, () => ({ const: true })],
+  [assertFalse, () => ({ const: false })],
+  [assertNonEmptyString, () => ({ type: 'string', minLength: 1 })],
+  [assertStringLength, (n: number) => ({ type: 'string', minLength: n, maxLength: n })],
+  [assertStringLengthAtLeast, (n: number) => ({ type: 'string', minLength: n })],
+  [assertStringLengthAtMost, (n: number) => ({ type: 'string', maxLength: n })],
+  [assertStringLengthBetween, (min: number, max: number) => ({ type: 'string', minLength: min, maxLength: max })],
+  // flags other than unicode change what the pattern matches
+  [assertStringMatches, (re: RegExp) => (re.flags === '' || re.flags === 'u' ? { type: 'string', pattern: re.source } : undefined)],
+  [assertNumberGreaterThan, (n: number) => ({ type: 'number', exclusiveMinimum: n })],
+  [assertNumberGreaterOrEqual, (n: number) => ({ type: 'number', minimum: n })],
+  [assertNumberLessThan, (n: number) => ({ type: 'number', exclusiveMaximum: n })],
+  [assertNumberLessOrEqual, (n: number) => ({ type: 'number', maximum: n })],
+  [assertNumberBetween, (min: number, max: number) => ({ type: 'number', minimum: min, maximum: max })],
+  [assertNumberPositive, () => ({ type: 'number', exclusiveMinimum: 0 })],
+  [assertNumberNonNegative, () => ({ type: 'number', minimum: 0 })],
+  [assertNumberNegative, () => ({ type: 'number', exclusiveMaximum: 0 })],
+  [assertNumberNonPositive, () => ({ type: 'number', maximum: 0 })],
+  [assertNumberInteger, () => ({ type: 'integer' })],
+  [assertNumberSafeInteger, () => ({ type: 'integer', minimum: Number.MIN_SAFE_INTEGER, maximum: Number.MAX_SAFE_INTEGER })],
+  [assertArrayNotEmpty, () => ({ type: 'array', minItems: 1 })],
+  [assertNonEmptyArray, () => ({ type: 'array', minItems: 1 })],
+  [assertArrayLength, (n: number) => ({ type: 'array', minItems: n, maxItems: n })],
+  [assertArrayOnlyHasStrings, () => ({ type: 'array', items: { type: 'string' } })],
+  [assertArrayOnlyHasNumbers, () => ({ type: 'array', items: { type: 'number' } })],
+  [assertEquals, (expected: unknown) => (expected === null || ['string', 'boolean'].includes(typeof expected) || Number.isFinite(expected) ? { const: expected } : undefined)],
+]);
+
+type ChainedAssertions = typeof chainedAssertions;
+/** `assertNumberBetween` -> `numberBetween` */
+type ChainMethodName<K> = K extends `assert${infer R}` ? Uncapitalize<R> : never;
+type ChainArgs<F> = F extends (x: any, ...args: infer A) => any ? A : never;
+type ChainNarrowed<F> = F extends (x: any, ...args: any[]) => asserts x is infer N ? N : unknown;
+
+/** Chain methods generated from the assertion registry. */
+export type AssertChainMethods<V> = {
+  [K in keyof ChainedAssertions as ChainMethodName<K>]: (...args: ChainArgs<ChainedAssertions[K]>) => AssertChain<V & ChainNarrowed<ChainedAssertions[K]>>;
+};
+
+/** Alias chain methods (see chainAliases). */
+export type AssertChainAliases<V> = { [A in keyof typeof chainAliases]: AssertChainMethods<V>[(typeof chainAliases)[A]] };
+
+function chainMethodName(assertion: string): string {
+  return assertion.charAt(6).toLowerCase() + assertion.slice(7);
+}
+
+/** Type a sub-chain starts from: the known property/element type, or unknown. */
+type ChainProp<V, K extends PropertyKey> = V extends unknown ? (K extends keyof V ? V[K] : unknown) : never;
+type ChainElement<V> = V extends readonly (infer E)[] ? E : unknown;
+/** Parent type after a sub-chain: narrowed in place, or with the property/elements replaced when it transforms. */
+type ChainWithProp<V, K extends string, R> = K extends keyof V ? ([R] extends [V[K]] ? V & Record<K, R> : Omit<V, K> & Record<K, R>) : V & Record<K, R>;
+type ChainWithElements<V, R> = [R] extends [ChainElement<V>] ? V & R[] : R[];
+type ChainWithElement<V, I extends number, R> = [R] extends [ChainElement<V>] ? V & { [P in I]: R } : Array<ChainElement<V> | R> & { [P in I]: R };
+
+/** Location and unprefixed message of failures re-thrown by sub-chains, so nesting prefixes once. */
+const subChainFailures = new WeakMap<AssertError, { at: string; message: string }>();
+
 // ===============
 // Chainable assertions API (typed narrowing per step)
 // ===============
 
+export interface AssertChain<V> extends AssertChainMethods<V>, AssertChainAliases<V> {}
+
 /**
  * Fluent chain of assertions built on NarrowingBuilder.<br>
- * Each method adds a guard and returns a new chain with a narrowed type parameter.
+ * Each method adds a guard and returns a new chain with a narrowed type parameter. Besides the
+ * methods below, every registered assertion is available without its `assert` prefix
+ * (`.numberBetween(1, 5)`, `.dateBefore(d)`, `.stringMatches(/x/)`, ...), plus short aliases
+ * such as `.between()`, `.positive()` and `.matches()`. Transform steps (`.trim()`, `.parseNumber()`,
+ * `.transform(fn)`, ...) replace the value for the steps after them.
  *
  * Use .run(cb) or .runOr(cb, fallback) to access the narrowed value.
  */
@@ -2039,186 +4848,230 @@ export class AssertChain<V> {
     return new AssertChain<V2>(this.builder.check(guard));
   }
 
-  // ---- Primitive/category guards ----
-  /** Assert that the value is a string (alias: isString). */
-  string(): AssertChain<V & string> {
+  // ---- Nullability ----
+  /** Assert that the value is not undefined. */
+  defined(message?: AssertMessage): AssertChain<Exclude<V, undefined>> {
     return new AssertChain(
-      this.builder.check((x: V): asserts x is V & string => {
-        assertString(x as unknown);
+      this.builder.check((x: V): asserts x is Exclude<V, undefined> => {
+        assertDefined(x as any, message);
       })
     );
   }
-  // Alias: isString()
-  /** Alias for .string(). */
-  isString(): AssertChain<V & string> {
-    return this.string();
-  }
-  /** Assert that the value is a number (alias: isNumber). */
-  number(): AssertChain<V & number> {
+  /** Assert that the value is not null. */
+  nonNull(message?: AssertMessage): AssertChain<Exclude<V, null>> {
     return new AssertChain(
-      this.builder.check((x: V): asserts x is V & number => {
-        assertNumber(x as unknown);
+      this.builder.check((x: V): asserts x is Exclude<V, null> => {
+        assertNonNull(x as any, message);
       })
     );
   }
-  // Alias: isNumber()
-  /** Alias for .number(). */
-  isNumber(): AssertChain<V & number> {
-    return this.number();
-  }
-  /** Assert that the value is a boolean (alias: isBoolean). */
-  boolean(): AssertChain<V & boolean> {
+  /** Assert that the value is neither null nor undefined. */
+  present(message?: AssertMessage): AssertChain<Exclude<V, null | undefined>> {
     return new AssertChain(
-      this.builder.check((x: V): asserts x is V & boolean => {
-        assertBoolean(x as unknown);
+      this.builder.check((x: V): asserts x is Exclude<V, null | undefined> => {
+        assertPresent(x as any, message);
       })
     );
   }
-  // Alias: isBoolean()
-  /** Alias for .boolean(). */
-  isBoolean(): AssertChain<V & boolean> {
-    return this.boolean();
+  /** Alias: value exists (not null/undefined). */
+  exists(message?: AssertMessage): AssertChain<Exclude<V, null | undefined>> {
+    return this.present(message);
   }
-  /** Assert that the value is an array (alias: isArray). */
-  array(): AssertChain<V & unknown[]> {
+  /** Assert that the value is truthy. */
+  truthy(message?: AssertMessage): AssertChain<Exclude<V, null | undefined>> {
     return new AssertChain(
-      this.builder.check((x: V): asserts x is V & unknown[] => {
-        assertArray(x as unknown);
+      this.builder.check((x: V): asserts x is Exclude<V, null | undefined> => {
+        assertTruthy(x as any, message);
       })
     );
   }
-  // Alias: isArray()
-  /** Alias for .array(). */
-  isArray(): AssertChain<V & unknown[]> {
-    return this.array();
-  }
-  /** Assert that the value is a plain object (alias: isObject). */
-  object(): AssertChain<V & Record<string, unknown>> {
+
+  // ---- Instances ----
+  /** Assert that the value is an instance of the given constructor. */
+  instanceOf<C extends new (...args: any[]) => any>(ctor: C, message?: AssertMessage): AssertChain<V & InstanceType<C>> {
     return new AssertChain(
-      this.builder.check((x: V): asserts x is V & Record<string, unknown> => {
-        assertObject(x as unknown);
+      this.builder.check((x: V): asserts x is V & InstanceType<C> => {
+        assertInstanceOf(x as unknown, ctor, message);
       })
     );
   }
-  // Alias: isObject()
-  /** Alias for .object(). */
-  isObject(): AssertChain<V & Record<string, unknown>> {
-    return this.object();
-  }
-  /** Assert that the value is a Date (alias: isDate). */
-  date(): AssertChain<V & Date> {
+
+  // ---- Keys and literals ----
+  /** Assert that the value is an object with the given key. */
+  hasKey<K extends string>(key: K, message?: AssertMessage): AssertChain<V & Record<string, unknown> & Record<K, unknown>> {
     return new AssertChain(
-      this.builder.check((x: V): asserts x is V & Date => {
-        assertDate(x as unknown);
+      this.builder.check((x: V): asserts x is V & Record<string, unknown> & Record<K, unknown> => {
+        assertHasKey(x as unknown, key, message);
       })
     );
   }
-  // Alias: isDate()
-  /** Alias for .date(). */
-  isDate(): AssertChain<V & Date> {
-    return this.date();
-  }
-
-  // ---- Nullability ----
-  /** Assert that the value is not undefined. */
-  defined(): AssertChain<Exclude<V, undefined>> {
+  /** Assert that the value is an object with all given keys, e.g. `.hasKeys('a', 'b')`. */
+  hasKeys<const K extends readonly string[]>(...keys: K): AssertChain<V & Record<string, unknown> & { [P in K[number]]: unknown }> {
     return new AssertChain(
-      this.builder.check((x: V): asserts x is Exclude<V, undefined> => {
-        assertDefined(x as any);
+      this.builder.check((x: V): asserts x is V & Record<string, unknown> & { [P in K[number]]: unknown } => {
+        assertHasKeys(x as unknown, ...keys);
       })
     );
   }
-  /** Assert that the value is not null. */
-  nonNull(): AssertChain<Exclude<V, null>> {
+  /** Assert that `value[key] === expected`. */
+  keyEquals<K extends string, const E>(key: K, expected: E, message?: AssertMessage): AssertChain<V & Record<string, unknown> & Record<K, E>> {
     return new AssertChain(
-      this.builder.check((x: V): asserts x is Exclude<V, null> => {
-        assertNonNull(x as any);
+      this.builder.check((x: V): asserts x is V & Record<string, unknown> & Record<K, E> => {
+        assertKeyEquals(x as unknown, key, expected, message);
       })
     );
   }
-  /** Assert that the value is neither null nor undefined. */
-  present(): AssertChain<Exclude<V, null | undefined>> {
+  /** Assert that the value is one of the given primitives. */
+  oneOfPrimitive<const T extends string | number | boolean>(options: readonly T[], message?: AssertMessage): AssertChain<V & T> {
     return new AssertChain(
-      this.builder.check((x: V): asserts x is Exclude<V, null | undefined> => {
-        assertPresent(x as any);
+      this.builder.check((x: V): asserts x is V & T => {
+        assertOneOfPrimitive(x as unknown, options, message);
       })
     );
   }
-  /** Alias: value exists (not null/undefined). */
-  exists(): AssertChain<Exclude<V, null | undefined>> {
-    return this.present();
+  /** Alias for .oneOfPrimitive(). */
+  oneOf<const T extends string | number | boolean>(options: readonly T[], message?: AssertMessage): AssertChain<V & T> {
+    return this.oneOfPrimitive(options, message);
   }
-
-  // ---- Instances ----
-  /** Assert that the value is an instance of the given constructor. */
-  instanceOf<C extends new (...args: any[]) => any>(ctor: C): AssertChain<V & InstanceType<C>> {
+  /** Assert that the value is a Map with the given key. */
+  mapHasKey<K>(key: K, message?: AssertMessage): AssertChain<V & Map<K, unknown>> {
     return new AssertChain(
-      this.builder.check((x: V): asserts x is V & InstanceType<C> => {
-        assertInstanceOf(x as unknown, ctor);
+      this.builder.check((x: V): asserts x is V & Map<K, unknown> => {
+        assertMapHasKey(x as unknown, key, message);
       })
     );
   }
-
-  // ---- String specifics ----
-  /** Assert that the value is a non-empty string (alias: isNonEmptyString). */
-  nonEmptyString(): AssertChain<V & string> {
+  /** Assert that the value is a Set containing value. */
+  setHasValue<T>(value: T, message?: AssertMessage): AssertChain<V & Set<T>> {
     return new AssertChain(
-      this.builder.check((x: V): asserts x is V & string => {
-        assertNonEmptyString(x as unknown);
+      this.builder.check((x: V): asserts x is V & Set<T> => {
+        assertSetHasValue(x as unknown, value, message);
       })
     );
   }
-  // Alias: isNonEmptyString()
-  /** Alias for .nonEmptyString(). */
-  isNonEmptyString(): AssertChain<V & string> {
-    return this.nonEmptyString();
-  }
-  /** Assert that the string's length is >= n. */
-  stringLengthAtLeast(n: number): AssertChain<V & string> {
+
+  // ---- Schemas ----
+  /** Assert that the value matches the schema (see assertMatchesSchema). */
+  matchesSchema<const S extends SimpleSchema | SchemaNode<any>>(schema: S, message?: AssertMessage): AssertChain<V & Infer<S>> {
     return new AssertChain(
-      this.builder.check((x: V): asserts x is V & string => {
-        assertStringLengthAtLeast(x as unknown, n);
+      this.builder.check((x: V): asserts x is V & Infer<S> => {
+        assertMatchesSchema(x as unknown, schema, message);
       })
     );
   }
-  /** Assert that the string's length is <= n. */
-  stringLengthAtMost(n: number): AssertChain<V & string> {
+  /** Assert a tagged object (see assertDiscriminant). */
+  discriminant<K extends string, const M extends DiscriminantSchemas>(key: K, schemas: M, message?: AssertMessage): AssertChain<V & InferDiscriminated<K, M>> {
     return new AssertChain(
-      this.builder.check((x: V): asserts x is V & string => {
-        assertStringLengthAtMost(x as unknown, n);
+      this.builder.check((x: V): asserts x is V & InferDiscriminated<K, M> => {
+        assertDiscriminant(x as unknown, key, schemas, message);
       })
     );
   }
-  /** Assert that the string contains the given substring or matches regex. */
-  stringContains(needle: string | RegExp): AssertChain<V & string> {
-    return new AssertChain(
-      this.builder.check((x: V): asserts x is V & string => {
-        assertStringContains(x as unknown, needle);
-      })
-    );
+
+  // ---- Unions ----
+  /**
+   * Pass when the checks so far pass or any of the given guards does, e.g.
+   * `chain(x).string().or(assertNumber)` narrows to `string | number`. Failure messages list why each branch failed.
+   */
+  or<const G extends readonly Guard<any, any>[]>(...guards: G): AssertChain<V | Guarded<G[number]>> {
+    return new AssertChain(this.builder.or(...guards));
+  }
+  /** Let undefined pass the checks so far, e.g. `chain(x).string().optional()` narrows to `string | undefined`. */
+  optional(): AssertChain<V | undefined> {
+    return new AssertChain(this.builder.optional());
   }
 
-  // ---- Array specifics ----
-  /** Assert that the value is a non-empty array (alias: isNonEmptyArray). */
-  nonEmptyArray(): AssertChain<V & unknown[]> {
-    return new AssertChain(
-      this.builder.check((x: V): asserts x is V & unknown[] => {
-        assertArrayNotEmpty(x as unknown);
-      })
-    );
+  // ---- Nested values ----
+  /**
+   * Check a property with a sub-chain, e.g. `.prop('address', (a) => a.object().prop('zip', (z) => z.string()))`.
+   * Narrows the property to the sub-chain's type; failure messages and paths are prefixed with the key.
+   * When the sub-chain transforms the property, later steps see a shallow copy holding the new value.
+   */
+  prop<K extends string, R>(key: K, fn: (c: AssertChain<ChainProp<V, K>>) => AssertChain<R>): AssertChain<ChainWithProp<V, K, R>> {
+    return this.transform((x) => {
+      if (x === null || typeof x !== 'object') return failType('AssertChain.prop', 'object', x);
+      const before = (x as Record<string, unknown>)[key];
+      const after = AssertChain.runNested(before, key, fn as (c: AssertChain<unknown>) => AssertChain<unknown>);
+      return (Object.is(before, after) ? x : { ...x, [key]: after }) as ChainWithProp<V, K, R>;
+    });
   }
-  // Alias: isNonEmptyArray()
-  /** Alias for .nonEmptyArray(). */
-  isNonEmptyArray(): AssertChain<V & unknown[]> {
-    return this.nonEmptyArray();
+  /** Check every element of an array with a sub-chain, e.g. `.each((c) => c.number())`; paths are prefixed with `[i]`. */
+  each<R>(fn: (c: AssertChain<ChainElement<V>>) => AssertChain<R>): AssertChain<ChainWithElements<V, R>> {
+    return this.transform((x) => {
+      if (!Array.isArray(x)) return failType('AssertChain.each', 'array', x);
+      let out: unknown[] | undefined;
+      x.forEach((item, i) => {
+        const after = AssertChain.runNested(item, `[${i}]`, fn as (c: AssertChain<unknown>) => AssertChain<unknown>);
+        if (!Object.is(item, after)) (out ??= x.slice())[i] = after;
+      });
+      return (out ?? x) as ChainWithElements<V, R>;
+    });
   }
-  /** Assert that the array length is exactly len. */
-  arrayLength(len: number): AssertChain<V & unknown[]> {
-    return new AssertChain(
-      this.builder.check((x: V): asserts x is V & unknown[] => {
-        assertArrayLength(x as unknown, len);
-      })
-    );
+  /** Check one array element with a sub-chain, e.g. `.at(0, (c) => c.string())`; paths are prefixed with `[index]`. */
+  at<I extends number, R>(index: I, fn: (c: AssertChain<ChainElement<V>>) => AssertChain<R>): AssertChain<ChainWithElement<V, I, R>> {
+    return this.transform((x) => {
+      if (!Array.isArray(x)) return failType('AssertChain.at', 'array', x);
+      const after = AssertChain.runNested(x[index], `[${index}]`, fn as (c: AssertChain<unknown>) => AssertChain<unknown>);
+      if (Object.is(x[index], after)) return x as ChainWithElement<V, I, R>;
+      const out = x.slice();
+      out[index] = after;
+      return out as ChainWithElement<V, I, R>;
+    });
+  }
+
+  /** Run a sub-chain on a nested value and return its result, re-throwing failures with `at` prefixed to message and path. */
+  private static runNested(value: unknown, at: string, fn: (c: AssertChain<unknown>) => AssertChain<unknown>): unknown {
+    try {
+      return fn(new AssertChain(onValue(value))).builder.assert();
+    } catch (e) {
+      if (!(e instanceof AssertError)) throw e;
+      const inner = subChainFailures.get(e);
+      const location = joinFailurePath(at, inner ? inner.at : undefined);
+      // thrown directly: scoped and global handlers already saw the original failure
+      const err = new AssertError(`${location}: ${inner ? inner.message : e.message}`, e.info, { ...e.failure, path: joinFailurePath(at, e.path) });
+      subChainFailures.set(err, { at: location, message: inner ? inner.message : e.message });
+      throw err;
+    }
+  }
+
+  // ---- Transforms ----
+  /** Replace the value with fn(value); later steps and run() receive the result. */
+  transform<W>(fn: (v: V) => W): AssertChain<W> {
+    return new AssertChain(this.builder.transform(fn));
+  }
+  /** Assert a string and continue with it trimmed. */
+  trim(message?: AssertMessage): AssertChain<string> {
+    return this.transform((x) => {
+      assertString(x, message);
+      return x.trim();
+    });
+  }
+  /** Continue with a number: numbers pass as-is, decimal strings ('42', '-1.5') are converted. */
+  parseNumber(message?: AssertMessage): AssertChain<number> {
+    return this.transform((x) => {
+      const n = typeof x === 'string' ? coercePrimitive('number', x) : x;
+      assertNumber(n === SCHEMA_FAILED ? x : n, message);
+      return n as number;
+    });
+  }
+  /** Continue with a Date parsed in the given format (see DateFromFormat), or in any supported format (see DateEnsure). */
+  parseDate(format?: DateFormat, message?: AssertMessage): AssertChain<Date> {
+    return this.transform((x) => (format ? DateFromFormat(format, x, message) : DateEnsure(x, message)));
+  }
+  /** Assert a JSON string (see assertStringIsJSON) and continue with the parsed value. */
+  parseJSON<T = unknown>(message?: AssertMessage): AssertChain<T> {
+    return this.transform((x) => {
+      assertStringIsJSON(x, message);
+      return JSON.parse(x) as T;
+    });
+  }
+
+  /**
+   * The chain's steps as a reusable validator, e.g. `define().string().stringLengthAtMost(64).build()`.
+   * The optional name shows in schema descriptions and JSON Schema exports.
+   */
+  build(name?: string): ChainValidator<V> {
+    return this.builder.build(name);
   }
 
   /** Execute callback if all guards pass */
@@ -2233,12 +5086,43 @@ export class AssertChain<V> {
   }
 }
 
+// Generated chain methods: one per registry entry, plus the aliases
+for (const [name, assertion] of Object.entries(chainedAssertions)) {
+  const check = assertion as (x: unknown, ...args: unknown[]) => void;
+  const toJsonSchema = assertionJsonSchemas.get(assertion);
+  Object.defineProperty(AssertChain.prototype, chainMethodName(name), {
+    value(this: AssertChain<unknown>, ...args: unknown[]) {
+      const guard = (x: unknown) => check(x, ...args);
+      const schema = toJsonSchema?.(...args);
+      if (schema) stepJsonSchemas.set(guard, schema);
+      return this.check(guard as Guard<unknown>);
+    },
+    writable: true,
+    configurable: true,
+  });
+}
+for (const [alias, target] of Object.entries(chainAliases)) {
+  Object.defineProperty(AssertChain.prototype, alias, Object.getOwnPropertyDescriptor(AssertChain.prototype, target)!);
+}
+
 /** Start a chainable assertion flow */
 /** Start an AssertChain over a value (alias exposed under assert.that). */
 export function chain<V>(value: V): AssertChain<V> {
   return new AssertChain(onValue(value));
 }
 
+/**
+ * Start a chain without a value, to define a reusable validator. End it with .build(): the chain
+ * itself is not callable and is not a Guard or schema rule. V is the input type the steps start from.
+ *
+ * @example
+ * const Username: ChainValidator<string> = define().string().trim().stringLengthBetween(3, 64).build();
+ * Username(body.name); // asserts; also Username.is(x), onValue(x).check(Username), s.object({ name: Username })
+ */
+export function define<V = unknown>(): AssertChain<V> {
+  return new AssertChain(onValue(undefined as V));
+}
+
 /** Start a chain with initial guards */
 /** Start an AssertChain with initial guards applied. */
 export function chainWith<V>(value: V, ...guards: Array<Guard<any, any>>): AssertChain<V> {
@@ -2251,27 +5135,29 @@ export function chainWith<V>(value: V, ...guards: Array<Guard<any, any>>): Asser
 
 // Alias outer symbols to avoid shadowing inside object literal
 const __chain = chain;
+const __define = define;
 const __onValue = onValue;
 const __onConfirmedWith = onConfirmedWith;
 const __onConfirmed = onConfirmed;
 const __assertRoute = assertRoute;
 const __assertRouteAsync = assertRouteAsync;
+const __runRoute = runRoute;
+const __runRouteAsync = runRouteAsync;
+const __routeResult = routeResult;
+const __routeResultAsync = routeResultAsync;
+const __useRouteMiddleware = useRouteMiddleware;
+const __assertRouteCollect = assertRouteCollect;
+const __checkpoint = checkpoint;
+const __withAssertContext = withAssertContext;
+const __match = match;
+const __or = or;
+const __and = and;
+const __not = not;
+const __optional = optional;
+const __nullable = nullable;
 const __confirm = confirm;
 const __confirmWithError = confirmWithError;
 const __confirmAll = confirmAll;
-const __assertString = assertString;
-const __assertNumber = assertNumber;
-const __assertBoolean = assertBoolean;
-const __assertArray = assertArray;
-const __assertObject = assertObject;
-const __assertDate = assertDate;
-const __assertFunction = assertFunction;
-const __assertPromiseLike = assertPromiseLike;
-const __assertDefined = assertDefined;
-const __assertNonNull = assertNonNull;
-const __assertPresent = assertPresent;
-const __assertExists = assertExists;
-const __assertInstanceOf = assertInstanceOf;
 
 // Preferred facade without using the global name "assert": voucher
 // Groups the same helpers under a safer, less-colliding symbol.
@@ -2279,6 +5165,7 @@ const __assertInstanceOf = assertInstanceOf;
 export const vouch = {
   // chains and confirmation
   that: __chain,
+  define: __define,
   onValue: __onValue,
   onConfirmedWith: __onConfirmedWith,
   onConfirmed: __onConfirmed,
@@ -2287,32 +5174,39 @@ export const vouch = {
   routeAsync: __assertRouteAsync,
   // short alias for async routing
   async: __assertRouteAsync,
+  // explicit immediate-run variants (independent of fn arity)
+  run: __runRoute,
+  runAsync: __runRouteAsync,
   // always-function wrapper variant
   routeFn: assertRouteFn,
   // short alias to blend into function declarations
   fn: assertRouteFn,
   // always-function async wrapper variant
   fnAsync: fnAsync,
+  // result-returning variants ({ ok, value } | { ok, error } instead of a fallback)
+  routeResult: __routeResult,
+  routeResultAsync: __routeResultAsync,
+  useRouteMiddleware: __useRouteMiddleware,
+  routeSoft: __assertRouteCollect,
+  assertRouteCollect: __assertRouteCollect,
+  checkpoint: __checkpoint,
+  withContext: __withAssertContext,
+  // tagged unions
+  match: __match,
+  // guard combinators
+  or: __or,
+  and: __and,
+  not: __not,
+  optional: __optional,
+  nullable: __nullable,
   // confirms
   confirm: __onConfirmedWith,
   confirmBool: __confirm,
   confirmWithError: __confirmWithError,
   confirmAll: __confirmAll,
   // assertions
-  // Core primitives (single canonical names)
-  assertString: __assertString,
-  assertNumber: __assertNumber,
-  assertBoolean: __assertBoolean,
-  assertArray: __assertArray,
-  assertObject: __assertObject,
-  assertDate: __assertDate,
-  assertFunction: __assertFunction,
-  assertPromiseLike: __assertPromiseLike,
-  assertDefined: __assertDefined,
-  assertNonNull: __assertNonNull,
-  assertPresent: __assertPresent,
-  assertExists: __assertExists,
-  assertInstanceOf: __assertInstanceOf,
+  // every registered assertion under its own name (see assertionRegistry)
+  ...assertionRegistry,
   // value-returning ensure variants (single alias each)
   IsString: expectString,
   IsNumber: expectNumber,
@@ -2321,26 +5215,26 @@ export const vouch = {
   IsObject: expectObject,
   IsDate: expectDate,
   // composed value-returning helpers built on assert-then-return
-  IsNumberIsPositive: (x: unknown, message?: string): number => {
+  IsNumberIsPositive: (x: unknown, message?: AssertMessage): number => {
     assertNumberPositive(x, message);
     return x as number;
   },
-  IsArrayNotEmpty: <T = unknown>(x: unknown, message?: string): T[] => {
+  IsArrayNotEmpty: <T = unknown>(x: unknown, message?: AssertMessage): T[] => {
     assertArrayNotEmpty<T>(x, message);
     return x as T[];
   },
-  IsStringContains: (x: unknown, needle: string | RegExp, message?: string): string => {
+  IsStringContains: (x: unknown, needle: string | RegExp, message?: AssertMessage): string => {
     assertStringContains(x, needle, message);
     return x as string;
   },
-  IsDateBetweenInclusive: (x: unknown, min: Date, max: Date, message?: string): Date => {
+  IsDateBetweenInclusive: (x: unknown, min: Date, max: Date, message?: AssertMessage): Date => {
     assertDateBetween(x, min, max, message);
     return x as Date;
   },
   // simple confirmation of single assertion -> boolean
   confirmOne: (check: () => void): boolean => {
     try {
-      check();
+      throwingAssertions(check);
       return true;
     } catch (e) {
       if (e instanceof AssertError) return false;
@@ -2386,7 +5280,7 @@ export const catalog: ReadonlyArray<AssertionEntry> = [
 
 export function report(check: () => void): { ok: true } | { ok: false; error: AssertError } {
   try {
-    check();
+    throwingAssertions(check);
     return { ok: true } as const;
   } catch (e) {
     if (e instanceof AssertError) return { ok: false, error: e } as const;
@@ -2395,12 +5289,12 @@ export function report(check: () => void): { ok: true } | { ok: false; error: As
 }
 
 export const mustBe = {
-  string: (v: unknown, msg?: string) => () => assertString(v, msg),
-  number: (v: unknown, msg?: string) => () => assertNumber(v, msg),
-  array: (v: unknown, msg?: string) => () => assertArray(v, msg),
-  object: (v: unknown, msg?: string) => () => assertObject(v, msg),
-  boolean: (v: unknown, msg?: string) => () => assertBoolean(v, msg),
-  date: (v: unknown, msg?: string) => () => assertDate(v, msg),
+  string: (v: unknown, msg?: AssertMessage) => () => assertString(v, msg),
+  number: (v: unknown, msg?: AssertMessage) => () => assertNumber(v, msg),
+  array: (v: unknown, msg?: AssertMessage) => () => assertArray(v, msg),
+  object: (v: unknown, msg?: AssertMessage) => () => assertObject(v, msg),
+  boolean: (v: unknown, msg?: AssertMessage) => () => assertBoolean(v, msg),
+  date: (v: unknown, msg?: AssertMessage) => () => assertDate(v, msg),
 } as const;
 
 // Attach catalog/report/mustBe under v facade for discoverability
@@ -1,5 +1,5 @@
 // Narrowing checks for non-empty guards
-import { isNonEmptyString, isNonEmptyArray, isNonEmptyRecord, isNonZeroNumber, isNonEmpty } from './assertroute';
+import { isNonEmptyString, isNonEmptyArray, isNonEmptyRecord, isNonZeroNumber, isNonEmpty, assertMatchesSchema, parse, assertDiscriminant, match, chain, define, ChainValidator, or, not, optional, assertString, assertNumber, assertNull, s } from './assertroute';
 
 function checkString(x: unknown) {
   if (isNonEmptyString(x)) {
@@ -48,10 +48,99 @@ function checkComposite(x: unknown) {
   }
 }
 
+function checkSchema(x: unknown) {
+  assertMatchesSchema(x, {
+    id: 'string',
+    role: s.literal('admin', 'user'),
+    tags: ['string'],
+    address: { zip: 'string', line2: s.optional('string') },
+  });
+  const id: string = x.id; // narrowed to the inferred shape
+  const zip: string = x.address.zip;
+  const tag: string = x.tags[0];
+  // @ts-expect-error role is 'admin' | 'user'
+  const role: 'guest' = x.role;
+  // @ts-expect-error optional key may be undefined
+  const line2: string = x.address.line2;
+}
+
+function checkParse(query: unknown) {
+  const parsed = parse(s.object({ page: s.default('number', 1), active: s.optional('boolean') }), query);
+  const page: number = parsed.page; // defaults make the key required in the result
+  // @ts-expect-error optional key may be undefined
+  const active: boolean = parsed.active;
+}
+
+function checkDiscriminant(x: unknown) {
+  assertDiscriminant(x, 'kind', { circle: { r: 'number' }, square: { size: 'number' } });
+  const area = match(x, 'kind', { circle: (c) => c.r ** 2, square: (sq) => sq.size ** 2 });
+  const n: number = area;
+  // @ts-expect-error every tag needs a handler
+  match(x, 'kind', { circle: (c) => c.r });
+}
+
+function checkChain(x: unknown) {
+  const sum = chain(x).hasKeys('a', 'b').run((o) => [o.a, o.b]);
+  const n = chain(x).number().numberBetween(1, 5).integer().run((num) => num.toFixed(0));
+  const label: string | undefined = n;
+  // @ts-expect-error only registered assertions become chain methods
+  chain(x).numberSomething();
+}
+
+function checkNestedChain(x: unknown) {
+  const zip = chain(x)
+    .prop('address', (a) => a.prop('zip', (z) => z.string()))
+    .prop('scores', (sc) => sc.each((n) => n.number()))
+    .run((o) => {
+      const first: number = o.scores[0];
+      return o.address.zip;
+    });
+  const z: string | undefined = zip;
+}
+
+function checkCombinators(x: unknown, name: string | null) {
+  const id = chain(x).check(or(assertString, assertNumber)).run((v) => v);
+  const idType: string | number | undefined = id;
+  const note = chain(x).string().optional().run((v) => v);
+  // @ts-expect-error optional() keeps undefined in the type
+  const noteText: string = chain(x).check(optional(assertString)).runOr((v) => v, 'x');
+  const present = chain(name).check(not(assertNull)).run((v) => v.length);
+}
+
+function checkTransforms(x: unknown, query: { page: string }) {
+  const n: number | undefined = chain(x).trim().nonEmptyString().parseNumber().integer().positive().run((v) => v);
+  const page = chain(query).prop('page', (p) => p.parseNumber()).run((q) => q.page);
+  const pageNumber: number | undefined = page;
+  // @ts-expect-error parseJSON yields unknown unless a type is given
+  chain(x).parseJSON().run((v) => v.id);
+}
+
+const Username: ChainValidator<string> = define().string().stringLengthAtMost(64).build();
+// @ts-expect-error a defined chain needs .build() before it is a validator
+const unbuilt: ChainValidator<string> = define().string();
+
+function checkDefinedValidator(x: unknown, body: unknown) {
+  if (Username.is(x)) {
+    const name: string = x;
+  }
+  assertMatchesSchema(body, { name: Username });
+  const fromSchema: string = body.name;
+  Username(x);
+  const asserted: string = x;
+}
+
 export function runAll() {
   checkString('hi');
   checkArray(['a']);
   checkRecord({ a: 1 });
   checkNumber(2);
   checkComposite('x');
+  checkSchema({ id: '1', role: 'user', tags: [], address: { zip: '1234AB' } });
+  checkParse({ active: 'true' });
+  checkDiscriminant({ kind: 'circle', r: 1 });
+  checkChain({ a: 1, b: 2 });
+  checkNestedChain({ address: { zip: '1234AB' }, scores: [1] });
+  checkCombinators('id-1', 'x');
+  checkTransforms(' 42 ', { page: '2' });
+  checkDefinedValidator('ada', { name: 'ada' });
 }